@@ -1,19 +1,40 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
 import ora from 'ora';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import * as glob from 'glob';
+import { createTwoFilesPatch } from 'diff';
 import { UniversalTransformer } from './core/UniversalTransformer';
 import { ConfigManager } from './core/ConfigManager';
-import { TextValidator } from './utils/TextValidator';
-import { I18nConfig } from './types';
+import { StatsCollector } from './core/StatsCollector';
+import { TranslationExchange } from './core/TranslationExchange';
+import { Translator } from './core/Translator';
+import { Watcher } from './core/Watcher';
+import { BackupManager } from './core/BackupManager';
+import { LocaleValidator } from './utils/LocaleValidator';
+import { CsvFormat } from './utils/CsvFormat';
+import {
+  I18nConfig,
+  TextExtraction,
+  FileChange,
+  LocaleIssue,
+  I18nProjectStats,
+} from './types';
 
 const program = new Command();
 
+// `--workers`: 0 parses on the main thread
+function parseWorkers(value: string): number {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new InvalidArgumentError('Expected a non-negative integer.');
+  }
+  return parseInt(value, 10);
+}
+
 // Helper function to validate if this is a React project
 async function validateReactProject(): Promise<{
   isValid: boolean;
@@ -173,9 +194,23 @@ async function runTransformation(options: any): Promise<void> {
     if (options.transformer && options.transformer !== 'auto') {
       config.advanced.transformerType = options.transformer;
     }
+    if (options.pseudo) {
+      config.pseudoLanguage =
+        options.pseudo === true ? 'en-XA' : options.pseudo;
+    }
+    if (options.incremental) config.advanced.incremental = true;
+    if (options.since) config.advanced.since = options.since;
+    if (options.workers !== undefined) {
+      config.advanced.workers = options.workers;
+    }
+    if (options.gitBranch) config.git.branch = options.gitBranch;
+    if (options.allowDirty) config.git.requireClean = false;
     if (options.backup === false) {
       config.advanced.createBackup = false;
     }
+    if (options.dryRun) {
+      config.advanced.dryRun = true;
+    }
 
     // Validate configuration
     const validation = configManager.validateConfig(config);
@@ -198,7 +233,10 @@ async function runTransformation(options: any): Promise<void> {
           )
         : await transformer.transform();
 
-    if (result.success) {
+    if (result.success && result.fileChanges) {
+      spinner.succeed('🔍 Dry run completed - no files were changed');
+      printFileChanges(result.fileChanges);
+    } else if (result.success) {
       spinner.succeed('🎉 Transformation completed successfully!');
 
       console.log(chalk.green('\n✨ Transformation Summary:'));
@@ -206,11 +244,18 @@ async function runTransformation(options: any): Promise<void> {
       console.log(`   📝 Texts transformed: ${result.stats.textsTransformed}`);
       console.log(`   📦 Imports added: ${result.stats.importsAdded}`);
       console.log(`   🔗 Hooks added: ${result.stats.hooksAdded}`);
-      console.log(`   🗝️  Translation keys: ${result.translationKeys.size}`);
+      console.log(`   🗝️  Translation keys: ${result.keyTexts.size}`);
 
       if (result.backupPath) {
         console.log(chalk.blue(`   💾 Backup created: ${result.backupPath}`));
       }
+      if (result.commit) {
+        console.log(
+          chalk.blue(
+            `   🌿 Committed to ${config.git.branch}: ${result.commit}`
+          )
+        );
+      }
 
       if (result.stats.warnings.length > 0) {
         console.log(chalk.yellow('\n⚠️  Warnings:'));
@@ -249,7 +294,9 @@ program
   .description(
     'Automated React i18n transformation tool - Run without arguments to auto-transform your project!'
   )
-  .version('1.0.0');
+  .version('1.0.0')
+  // Keep root options such as --output from swallowing subcommand options
+  .enablePositionalOptions();
 
 // Add global options for the default command
 program
@@ -269,6 +316,25 @@ program
     'Force transformer type: auto, typescript, javascript',
     'auto'
   )
+  .option(
+    '--pseudo [language]',
+    'Also write a pseudo-localized locale for UI testing (default: en-XA)'
+  )
+  .option(
+    '--incremental',
+    'Skip files unchanged since the last run (cached in .i18ner-cache.json)'
+  )
+  .option('--since <ref>', 'Only transform files changed since a git ref')
+  .option(
+    '--workers <count>',
+    'Parse files on this many worker threads (keys are still assigned in order)',
+    parseWorkers
+  )
+  .option(
+    '--git-branch <name>',
+    'Commit the changes onto a new git branch instead of making a backup'
+  )
+  .option('--allow-dirty', 'Transform files with uncommitted git changes')
   .option('--dry-run', 'Run without making changes')
   .option('--verbose', 'Verbose output')
   .option('--no-backup', 'Skip creating backup before transformation')
@@ -435,6 +501,25 @@ program
     'Force transformer type: auto, typescript, javascript',
     'auto'
   )
+  .option(
+    '--pseudo [language]',
+    'Also write a pseudo-localized locale for UI testing (default: en-XA)'
+  )
+  .option(
+    '--incremental',
+    'Skip files unchanged since the last run (cached in .i18ner-cache.json)'
+  )
+  .option('--since <ref>', 'Only transform files changed since a git ref')
+  .option(
+    '--workers <count>',
+    'Parse files on this many worker threads (keys are still assigned in order)',
+    parseWorkers
+  )
+  .option(
+    '--git-branch <name>',
+    'Commit the changes onto a new git branch instead of making a backup'
+  )
+  .option('--allow-dirty', 'Transform files with uncommitted git changes')
   .option('--dry-run', 'Run without making changes')
   .option('--verbose', 'Verbose output')
   .action(async (options) => {
@@ -456,6 +541,20 @@ program
       if (options.transformer && options.transformer !== 'auto') {
         config.advanced.transformerType = options.transformer;
       }
+      if (options.pseudo) {
+        config.pseudoLanguage =
+          options.pseudo === true ? 'en-XA' : options.pseudo;
+      }
+      if (options.incremental) config.advanced.incremental = true;
+      if (options.since) config.advanced.since = options.since;
+      if (options.workers !== undefined) {
+        config.advanced.workers = options.workers;
+      }
+      if (options.gitBranch) config.git.branch = options.gitBranch;
+      if (options.allowDirty) config.git.requireClean = false;
+      if (options.dryRun) {
+        config.advanced.dryRun = true;
+      }
 
       // Validate configuration
       const validation = configManager.validateConfig(config);
@@ -478,7 +577,10 @@ program
             )
           : await transformer.transform();
 
-      if (result.success) {
+      if (result.success && result.fileChanges) {
+        spinner.succeed('Dry run completed - no files were changed');
+        printFileChanges(result.fileChanges);
+      } else if (result.success) {
         spinner.succeed('Transformation completed successfully!');
 
         console.log(chalk.green('\n🎉 Transformation Summary:'));
@@ -488,7 +590,7 @@ program
         );
         console.log(`   📦 Imports added: ${result.stats.importsAdded}`);
         console.log(`   🔗 Hooks added: ${result.stats.hooksAdded}`);
-        console.log(`   🗝️  Translation keys: ${result.translationKeys.size}`);
+        console.log(`   🗝️  Translation keys: ${result.keyTexts.size}`);
 
         if (result.stats.warnings.length > 0) {
           console.log(chalk.yellow('\n⚠️  Warnings:'));
@@ -500,6 +602,13 @@ program
         if (result.backupPath) {
           console.log(chalk.blue(`\n💾 Backup created: ${result.backupPath}`));
         }
+        if (result.commit) {
+          console.log(
+            chalk.blue(
+              `\n🌿 Committed to ${config.git.branch}: ${result.commit}`
+            )
+          );
+        }
 
         console.log(chalk.green('\n✅ Next steps:'));
         console.log('   1. Review the generated translation files');
@@ -525,6 +634,68 @@ program
     }
   });
 
+// Watch command
+program
+  .command('watch')
+  .description('Report new hard-coded texts as components are edited')
+  .option('-c, --config <path>', 'Path to configuration file')
+  .option('-s, --src <path>', 'Source directory (default: ./src)')
+  .option('--fix', 'Rewrite new texts to t() calls instead of only reporting')
+  .action(async (options) => {
+    const spinner = ora('Starting watch mode...').start();
+
+    try {
+      const configManager = ConfigManager.getInstance();
+      const config = configManager.loadConfig(options.config);
+      if (options.src) config.srcDir = options.src;
+
+      const watcher = new Watcher(config, {
+        fix: options.fix,
+        onUpdate: ({ filePath, texts, fixed }) => {
+          if (texts.length === 0) return;
+
+          const relativePath = path.relative(process.cwd(), filePath);
+          console.log(
+            fixed
+              ? chalk.green(
+                  `\n✅ ${relativePath}: ${texts.length} texts rewritten`
+                )
+              : chalk.yellow(
+                  `\n⚠️  ${relativePath}: ${texts.length} new hard-coded texts`
+                )
+          );
+          texts.forEach((text) =>
+            console.log(
+              `   ${chalk.gray(`${relativePath}:${text.line}:${text.column}`)} ${chalk.cyan(text.type)} ${text.text}`
+            )
+          );
+        },
+        onError: (error, filePath) =>
+          console.error(
+            chalk.red(
+              `\n❌ ${path.relative(process.cwd(), filePath)}: ${error.message}`
+            )
+          ),
+      });
+
+      const fileCount = await watcher.start();
+      spinner.succeed(
+        `Watching ${fileCount} files in ${config.srcDir} (${options.fix ? 'rewriting' : 'report only, use --fix to rewrite'})`
+      );
+      console.log(chalk.gray('   Press Ctrl+C to stop'));
+
+      process.on('SIGINT', () => {
+        watcher.close();
+        process.exit(0);
+      });
+    } catch (error) {
+      spinner.fail(
+        `Watch failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
 // Init command
 program
   .command('init')
@@ -569,21 +740,23 @@ program
   .command('validate')
   .description('Validate translation files and extracted texts')
   .option('-c, --config <path>', 'Path to configuration file')
-  .option('-f, --file <path>', 'Validate specific file')
+  .option('-o, --output <path>', 'Directory containing translation files')
+  .option('-f, --file <path>', 'List untranslated texts left in a file')
+  .option('--allow-empty', 'Do not fail on untranslated (empty) values')
   .action(async (options) => {
     const spinner = ora('Validating...').start();
 
     try {
       const configManager = ConfigManager.getInstance();
       const config = configManager.loadConfig(options.config);
-      const validator = new TextValidator(config);
+      if (options.output) config.outputDir = options.output;
 
       if (options.file) {
         // Validate specific file
-        await validateFile(options.file, validator, spinner);
+        await validateFile(options.file, config, spinner);
       } else {
         // Validate translation files
-        await validateTranslationFiles(config, validator, spinner);
+        await validateTranslationFiles(config, spinner, options);
       }
     } catch (error) {
       spinner.fail(
@@ -598,22 +771,55 @@ program
   .command('extract')
   .description('Extract translatable texts without transformation')
   .option('-c, --config <path>', 'Path to configuration file')
-  .option('-o, --output <path>', 'Output file for extracted texts (JSON)')
+  .option('-s, --src <path>', 'Source directory (default: ./src)')
+  .option('-o, --output <path>', 'Output file for extracted texts')
+  .option(
+    '-f, --format <format>',
+    'Output format: json or csv (default: from the output file extension)'
+  )
   .action(async (options) => {
     const spinner = ora('Extracting texts...').start();
 
     try {
       const configManager = ConfigManager.getInstance();
       const config = configManager.loadConfig(options.config);
+      if (options.src) config.srcDir = options.src;
+
+      const format: string =
+        options.format ||
+        (options.output && path.extname(options.output) === '.csv'
+          ? 'csv'
+          : 'json');
+      if (format !== 'json' && format !== 'csv') {
+        throw new Error(`Unsupported format: ${format} (use json or csv)`);
+      }
 
-      // Create transformer but only extract
-      const { UniversalTransformer } = await import(
-        './core/UniversalTransformer'
-      );
       const transformer = new UniversalTransformer(config);
-      // TODO: Add extract-only method
+      const extractions = (await transformer.extract()).map((extraction) => ({
+        ...extraction,
+        filePath: path.relative(process.cwd(), extraction.filePath),
+      }));
+
+      spinner.succeed(
+        `Text extraction completed! Found ${extractions.length} texts`
+      );
 
-      spinner.succeed('Text extraction completed!');
+      if (options.output) {
+        const contents =
+          format === 'csv'
+            ? extractionsToCsv(extractions)
+            : JSON.stringify(extractions, null, config.format.indent) + '\n';
+        await fs.outputFile(options.output, contents);
+        console.log(
+          chalk.green(`\n📝 Extracted texts written to ${options.output}`)
+        );
+      } else {
+        extractions.forEach((extraction) =>
+          console.log(
+            `   ${chalk.gray(`${extraction.filePath}:${extraction.line}:${extraction.column}`)} ${chalk.cyan(extraction.type)} ${extraction.text}`
+          )
+        );
+      }
     } catch (error) {
       spinner.fail(
         `Extraction failed: ${error instanceof Error ? error.message : String(error)}`
@@ -622,6 +828,172 @@ program
     }
   });
 
+// Export command
+program
+  .command('export')
+  .description('Export translations for translators and translation tools')
+  .option('-c, --config <path>', 'Path to configuration file')
+  .option(
+    '-f, --format <format>',
+    'Export format: po, xliff (1.2), xliff2 (2.0) or csv',
+    'po'
+  )
+  .option('-o, --output <path>', 'Output directory', './translations')
+  .action(async (options) => {
+    const spinner = ora('Exporting translations...').start();
+
+    try {
+      const configManager = ConfigManager.getInstance();
+      const config = configManager.loadConfig(options.config);
+
+      if (!['po', 'xliff', 'xliff2', 'csv'].includes(options.format)) {
+        throw new Error(
+          `Unsupported format: ${options.format} (use po, xliff, xliff2 or csv)`
+        );
+      }
+
+      const files = await new TranslationExchange(config).export(
+        options.format,
+        options.output
+      );
+
+      spinner.succeed(`Exported ${files.length} files`);
+      files.forEach((file) => console.log(chalk.green(`   📝 ${file}`)));
+    } catch (error) {
+      spinner.fail(
+        `Export failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+// Import command
+program
+  .command('import <files...>')
+  .description('Merge translated files back into the locale files')
+  .option('-c, --config <path>', 'Path to configuration file')
+  .option(
+    '-f, --format <format>',
+    'Input format: po, xliff or csv (default: from the file extension)'
+  )
+  .action(async (files: string[], options) => {
+    const spinner = ora('Importing translations...').start();
+
+    try {
+      const configManager = ConfigManager.getInstance();
+      const config = configManager.loadConfig(options.config);
+
+      if (options.format) {
+        if (!['po', 'xliff', 'csv'].includes(options.format)) {
+          throw new Error(
+            `Unsupported format: ${options.format} (use po, xliff or csv)`
+          );
+        }
+      } else {
+        const unsupported = files.filter(
+          (file) =>
+            !['.po', '.xlf', '.xliff', '.csv'].includes(path.extname(file))
+        );
+        if (unsupported.length > 0) {
+          throw new Error(`Unsupported files: ${unsupported.join(', ')}`);
+        }
+      }
+
+      const results = await new TranslationExchange(config).import(
+        files,
+        options.format
+      );
+
+      spinner.succeed('Translations imported');
+      results.forEach((result) => {
+        console.log(
+          `\n📥 ${result.filePath} (${result.language}): ${chalk.green(`${result.added.length} added`)}, ${chalk.cyan(`${result.changed.length} changed`)}`
+        );
+        if (result.changed.length > 0) {
+          console.log(chalk.gray(`   Changed: ${result.changed.join(', ')}`));
+        }
+        if (result.refused.length > 0) {
+          console.log(
+            chalk.red(
+              `   ❌ ${result.refused.length} refused, the source text changed since the export: ${result.refused.join(', ')}`
+            )
+          );
+        }
+        if (result.skipped.length > 0) {
+          console.log(
+            chalk.yellow(
+              `   ⚠️  ${result.skipped.length} rejected, the key no longer exists: ${result.skipped.join(', ')}`
+            )
+          );
+        }
+      });
+    } catch (error) {
+      spinner.fail(
+        `Import failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
+// Translate command
+program
+  .command('translate')
+  .description('Fill empty translations through a translation provider')
+  .option('-c, --config <path>', 'Path to configuration file')
+  .option(
+    '-p, --provider <name>',
+    'Translation provider: dictionary, or a path to a provider module'
+  )
+  .option('-l, --languages <langs>', 'Target languages (comma-separated)')
+  .option('--dictionary <path>', 'JSON dictionary of the dictionary provider')
+  .action(async (options) => {
+    const spinner = ora('Translating...').start();
+
+    try {
+      const configManager = ConfigManager.getInstance();
+      const config = configManager.loadConfig(options.config);
+
+      if (options.provider) config.translation.provider = options.provider;
+      if (options.dictionary) {
+        config.translation.dictionaryPath = options.dictionary;
+      }
+      const languages = options.languages
+        ? options.languages.split(',').map((l: string) => l.trim())
+        : config.targetLanguages;
+
+      const translator = new Translator(config);
+      spinner.text = `Translating with ${await translator.getProviderName()}...`;
+      const results = await translator.translate(languages);
+
+      const translated = results.reduce((sum, r) => sum + r.translated, 0);
+      spinner.succeed(`Translated ${translated} values`);
+      results.forEach((result) => {
+        console.log(
+          `\n🌐 ${result.filePath} (${result.language}): ${chalk.green(`${result.translated} translated`)}`
+        );
+        if (result.untranslated.length > 0) {
+          console.log(
+            chalk.yellow(
+              `   ⚠️  ${result.untranslated.length} without a translation: ${result.untranslated.join(', ')}`
+            )
+          );
+        }
+        if (result.rejected.length > 0) {
+          console.log(
+            chalk.red(
+              `   ❌ ${result.rejected.length} rejected, placeholders or tags were changed: ${result.rejected.join(', ')}`
+            )
+          );
+        }
+      });
+    } catch (error) {
+      spinner.fail(
+        `Translation failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      process.exit(1);
+    }
+  });
+
 // Analyze command
 program
   .command('analyze')
@@ -674,22 +1046,150 @@ program
   .command('stats')
   .description('Show project i18n statistics')
   .option('-c, --config <path>', 'Path to configuration file')
+  .option('--json', 'Print statistics as JSON')
   .action(async (options) => {
     const spinner = ora('Analyzing project...').start();
 
     try {
       const configManager = ConfigManager.getInstance();
-      const config = configManager.loadConfig(options.config);
-
-      // TODO: Add stats analysis
+      // Keep stdout clean for the JSON report
+      const config = configManager.loadConfig(options.config, {
+        quiet: options.json,
+      });
+      const stats = await new StatsCollector(config, {
+        quiet: options.json,
+      }).collect();
 
       spinner.succeed('Analysis completed!');
+
+      if (options.json) {
+        console.log(JSON.stringify(stats, null, 2));
+        return;
+      }
+
+      printStats(stats);
     } catch (error: any) {
       spinner.fail(`Analysis failed: ${error.message}`);
       process.exit(1);
     }
   });
 
+// Backup commands
+const backupsCommand = program
+  .command('backups')
+  .description('Manage the backups made before transformations');
+
+backupsCommand
+  .command('list')
+  .description('List backups, newest first')
+  .option('-c, --config <path>', 'Path to configuration file')
+  .action(async (options) => {
+    try {
+      const config = ConfigManager.getInstance().loadConfig(options.config);
+      const backups = await new BackupManager(config).list();
+
+      if (backups.length === 0) {
+        console.log(chalk.yellow('No backups found.'));
+        return;
+      }
+
+      console.log(
+        chalk.cyan(`\n💾 Backups (${backups.length}), newest first:\n`)
+      );
+      backups.forEach((backup) => {
+        const files =
+          backup.files === undefined
+            ? chalk.gray('no manifest')
+            : `${backup.files} modified files`;
+        console.log(
+          `   ${chalk.white(backup.timestamp)}  ${new Date(backup.createdAt).toLocaleString()}  ${files}`
+        );
+      });
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Listing backups failed: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
+// Rollback command
+program
+  .command('rollback [timestamp]')
+  .description(
+    'Restore the files a transformation modified from its backup (default: the latest)'
+  )
+  .option('-c, --config <path>', 'Path to configuration file')
+  .option('-y, --yes', 'Skip the confirmation')
+  .action(async (timestamp: string | undefined, options) => {
+    try {
+      const config = ConfigManager.getInstance().loadConfig(options.config);
+      const backups = new BackupManager(config);
+      const plan = await backups.plan(timestamp);
+
+      if (plan.entries.length === 0) {
+        console.log(
+          chalk.yellow(
+            `Backup ${plan.backup.timestamp} has no files to restore.`
+          )
+        );
+        return;
+      }
+
+      console.log(chalk.cyan(`\n⏪ Rollback to ${plan.backup.timestamp}:\n`));
+      plan.entries.forEach((entry) => {
+        const action =
+          entry.action === 'restore'
+            ? chalk.blue('overwrite')
+            : chalk.red('delete   ');
+        const edited = entry.edited
+          ? chalk.yellow('  ⚠️  edited since the transformation')
+          : '';
+        console.log(`   ${action} ${entry.filePath}${edited}`);
+      });
+
+      const edited = plan.entries.filter((entry) => entry.edited).length;
+      if (edited > 0) {
+        console.log(
+          chalk.yellow(
+            `\n⚠️  ${edited} files were edited after the transformation; those edits will be lost`
+          )
+        );
+      }
+
+      if (!options.yes) {
+        const { proceed } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'proceed',
+            message: `Restore ${plan.entries.length} files?`,
+            default: edited === 0,
+          },
+        ]);
+        if (!proceed) {
+          console.log(chalk.yellow('Rollback cancelled.'));
+          return;
+        }
+      }
+
+      await backups.rollback(plan);
+      console.log(
+        chalk.green(
+          `\n✅ Restored ${plan.entries.length} files from ${plan.backup.path}`
+        )
+      );
+    } catch (error) {
+      console.error(
+        chalk.red(
+          `Rollback failed: ${error instanceof Error ? error.message : String(error)}`
+        )
+      );
+      process.exit(1);
+    }
+  });
+
 async function interactiveSetup(): Promise<I18nConfig> {
   console.log(chalk.blue('\n🔧 Interactive Configuration Setup\n'));
 
@@ -726,6 +1226,10 @@ async function interactiveSetup(): Promise<I18nConfig> {
         { name: 'Use text as key', value: 'text' },
         { name: 'Generate hash-based keys', value: 'hash' },
         { name: 'Use path-based keys', value: 'path' },
+        {
+          name: 'Use namespaced keys (feature.Component.role.text)',
+          value: 'namespaced',
+        },
       ],
       default: 'text',
     },
@@ -743,6 +1247,21 @@ async function interactiveSetup(): Promise<I18nConfig> {
         { name: 'Button text', value: 'extractButtonText', checked: true },
         { name: 'Tooltips', value: 'extractTooltips', checked: true },
         { name: 'ARIA labels', value: 'extractAriaLabels', checked: true },
+        {
+          name: 'Rich text with inline elements (<Trans>)',
+          value: 'extractRichText',
+          checked: false,
+        },
+        {
+          name: 'Module-level constants rendered in JSX (nav items, options)',
+          value: 'extractModuleStrings',
+          checked: false,
+        },
+        {
+          name: 'Strings in toast(), alert(), new Error() and useState()',
+          value: 'extractStringLiterals',
+          checked: false,
+        },
       ],
     },
     {
@@ -783,6 +1302,14 @@ async function interactiveSetup(): Promise<I18nConfig> {
       extractAriaLabels: answers.transformations.includes('extractAriaLabels'),
       extractPlaceholders:
         answers.transformations.includes('extractAttributes'),
+      extractRichText: answers.transformations.includes('extractRichText'),
+      extractModuleStrings: answers.transformations.includes(
+        'extractModuleStrings'
+      ),
+      extractStringLiterals: answers.transformations.includes(
+        'extractStringLiterals'
+      ),
+      stringLiteralCallees: baseConfig.transformation.stringLiteralCallees,
     },
     advanced: {
       ...baseConfig.advanced,
@@ -792,23 +1319,188 @@ async function interactiveSetup(): Promise<I18nConfig> {
   };
 }
 
+function printFileChanges(changes: FileChange[]): void {
+  if (changes.length === 0) {
+    console.log(chalk.green('\n✨ Nothing to change'));
+    return;
+  }
+
+  for (const change of changes) {
+    const relativePath = path.relative(process.cwd(), change.filePath);
+    const patch = createTwoFilesPatch(
+      change.before ? `a/${relativePath}` : '/dev/null',
+      `b/${relativePath}`,
+      change.before,
+      change.after
+    );
+
+    console.log();
+    patch
+      .trimEnd()
+      .split('\n')
+      .slice(1) // Drop the "=====" separator line
+      .forEach((line) => {
+        if (line.startsWith('+++') || line.startsWith('---')) {
+          console.log(chalk.bold(line));
+        } else if (line.startsWith('+')) {
+          console.log(chalk.green(line));
+        } else if (line.startsWith('-')) {
+          console.log(chalk.red(line));
+        } else if (line.startsWith('@@')) {
+          console.log(chalk.cyan(line));
+        } else {
+          console.log(line);
+        }
+      });
+  }
+
+  console.log(
+    chalk.cyan(
+      `\n🔍 ${changes.length} file(s) would change. Run again without --dry-run to apply.`
+    )
+  );
+}
+
+function printStats(stats: I18nProjectStats): void {
+  console.log(chalk.green('\n📊 i18n Statistics'));
+  console.log('='.repeat(50));
+
+  console.log(
+    chalk.blue(
+      `\n🌍 Translation coverage (${stats.sourceKeys} ${stats.sourceLanguage} keys):`
+    )
+  );
+  if (stats.coverage.length === 0) {
+    console.log(chalk.gray('   No translation files found yet'));
+  }
+  stats.coverage.forEach((language) => {
+    const filled = Math.round(language.percentage / 5);
+    const bar = '█'.repeat(filled) + '░'.repeat(20 - filled);
+    const color =
+      language.percentage === 100
+        ? chalk.green
+        : language.percentage >= 50
+          ? chalk.yellow
+          : chalk.red;
+    console.log(
+      `   ${language.language.padEnd(6)} ${color(bar)} ${language.percentage}% (${language.translated}/${language.total})`
+    );
+  });
+
+  console.log(
+    chalk.blue(
+      `\n🔗 Components using useTranslation: ${stats.components.usingTranslation}/${stats.components.total}`
+    )
+  );
+
+  const remaining = stats.files.filter(
+    (file) => file.hardcodedStrings.length > 0
+  );
+  console.log(
+    chalk.blue(
+      `\n📝 Hard-coded strings remaining: ${stats.hardcodedStrings} in ${remaining.length} file(s)`
+    )
+  );
+  remaining.forEach((file) => {
+    console.log(`   ${file.filePath} (${file.hardcodedStrings.length})`);
+    file.hardcodedStrings.forEach((extraction) =>
+      console.log(
+        chalk.gray(`      ${extraction.line}:${extraction.column} `) +
+          extraction.text
+      )
+    );
+  });
+}
+
+function extractionsToCsv(extractions: TextExtraction[]): string {
+  return CsvFormat.serialize([
+    ['text', 'key', 'type', 'file', 'line', 'column'],
+    ...extractions.map((e) => [
+      e.text,
+      e.key,
+      e.type,
+      e.filePath,
+      e.line,
+      e.column,
+    ]),
+  ]);
+}
+
 async function validateFile(
   filePath: string,
-  validator: TextValidator,
+  config: I18nConfig,
   spinner: ora.Ora
 ): Promise<void> {
-  const content = await fs.readFile(filePath, 'utf8');
-  // TODO: Implement file validation
-  spinner.succeed(`File ${filePath} validated`);
+  if (!(await fs.pathExists(filePath))) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const transformer = new UniversalTransformer(config);
+  const extractions = await transformer.extractFile(filePath);
+
+  if (extractions.length === 0) {
+    spinner.succeed(`No untranslated texts left in ${filePath}`);
+    return;
+  }
+
+  spinner.fail(
+    `Found ${extractions.length} untranslated text(s) in ${filePath}`
+  );
+  extractions.forEach((extraction) =>
+    console.log(
+      `   ${chalk.gray(`${filePath}:${extraction.line}:${extraction.column}`)} ${chalk.cyan(extraction.type)} ${extraction.text}`
+    )
+  );
+  process.exit(1);
 }
 
 async function validateTranslationFiles(
   config: I18nConfig,
-  validator: TextValidator,
-  spinner: ora.Ora
+  spinner: ora.Ora,
+  options: { allowEmpty?: boolean }
 ): Promise<void> {
-  // TODO: Implement translation file validation
-  spinner.succeed('Translation files validated');
+  const report = await new LocaleValidator(config).validate();
+
+  // Empty values are expected right after a transform; let --allow-empty pass them
+  const failures = report.issues.filter(
+    (issue) => !(options.allowEmpty && issue.type === 'empty')
+  );
+
+  if (failures.length === 0) {
+    spinner.succeed('Translation files validated');
+  } else {
+    spinner.fail(`Found ${failures.length} issue(s) in translation files`);
+  }
+
+  const colors: Record<LocaleIssue['type'], chalk.Chalk> = {
+    missing: chalk.red,
+    orphaned: chalk.yellow,
+    empty: chalk.gray,
+    'placeholder-mismatch': chalk.magenta,
+  };
+
+  for (const file of report.files) {
+    const counts = file.issues.reduce<Record<string, number>>((acc, issue) => {
+      acc[issue.type] = (acc[issue.type] || 0) + 1;
+      return acc;
+    }, {});
+    const summary = Object.entries(counts)
+      .map(([type, count]) => `${count} ${type}`)
+      .join(', ');
+
+    console.log(
+      `\n📄 ${file.filePath}${file.exists ? '' : chalk.red(' (missing file)')}: ${summary || chalk.green('OK')}`
+    );
+    file.issues.forEach((issue) =>
+      console.log(
+        `   ${colors[issue.type](issue.type.padEnd(20))} ${issue.key} ${chalk.gray(`- ${issue.message}`)}`
+      )
+    );
+  }
+
+  if (failures.length > 0) {
+    process.exit(1);
+  }
 }
 
 // Error handling
@@ -0,0 +1,218 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { createHash } from 'crypto';
+import { BackupInfo, I18nConfig, RollbackEntry, RollbackPlan } from '../types';
+import { ConfigManager } from './ConfigManager';
+
+interface ManifestFile {
+  path: string; // Relative to the working directory
+  backup?: string; // Relative to the backup; absent when the run created it
+  hash: string; // Of the content the run wrote
+}
+
+interface Manifest {
+  createdAt: string;
+  files: ManifestFile[];
+}
+
+/**
+ * Backups of `createBackup`: a copy of srcDir and outputDir, plus a manifest
+ * of the files the transform then modified so a rollback restores those
+ * files only.
+ */
+export class BackupManager {
+  private static readonly PREFIX = 'backup-';
+  private static readonly MANIFEST = 'manifest.json';
+
+  private config: I18nConfig;
+
+  constructor(config?: I18nConfig) {
+    this.config = config || ConfigManager.getInstance().getConfig();
+  }
+
+  public async create(): Promise<string> {
+    const createdAt = new Date().toISOString();
+    const backupPath = path.join(
+      this.getBackupDir(),
+      `${BackupManager.PREFIX}${createdAt.replace(/[:.]/g, '-')}`
+    );
+
+    await fs.ensureDir(backupPath);
+    await fs.copy(this.config.srcDir, path.join(backupPath, 'src'));
+
+    if (await fs.pathExists(this.config.outputDir)) {
+      await fs.copy(this.config.outputDir, path.join(backupPath, 'locales'));
+    }
+    await this.writeManifest(backupPath, { createdAt, files: [] });
+
+    console.log(`💾 Created backup at ${backupPath}`);
+    return backupPath;
+  }
+
+  /**
+   * List the files a transform wrote in the manifest of its backup, given
+   * their content before the first write (null for new files)
+   */
+  public async record(
+    backupPath: string,
+    originals: Map<string, string | null>
+  ): Promise<void> {
+    const manifest = await this.readManifest(backupPath);
+    if (!manifest) return;
+
+    const files: ManifestFile[] = [];
+    for (const [written, original] of originals) {
+      const filePath = path.resolve(written);
+      if (!(await fs.pathExists(filePath))) continue;
+
+      files.push({
+        path: path.relative(process.cwd(), filePath).replace(/\\/g, '/'),
+        backup:
+          original === null
+            ? undefined
+            : await this.storeOriginal(backupPath, filePath, original),
+        hash: BackupManager.hash(await fs.readFile(filePath, 'utf8')),
+      });
+    }
+
+    await this.writeManifest(backupPath, {
+      ...manifest,
+      files: files.sort((a, b) => a.path.localeCompare(b.path)),
+    });
+  }
+
+  /** Backups in backupDir, newest first */
+  public async list(): Promise<BackupInfo[]> {
+    const backupDir = this.getBackupDir();
+    if (!(await fs.pathExists(backupDir))) return [];
+
+    const backups: BackupInfo[] = [];
+    for (const name of await fs.readdir(backupDir)) {
+      const backupPath = path.join(backupDir, name);
+      if (
+        !name.startsWith(BackupManager.PREFIX) ||
+        !(await fs.stat(backupPath)).isDirectory()
+      ) {
+        continue;
+      }
+
+      const manifest = await this.readManifest(backupPath);
+      backups.push({
+        timestamp: name.slice(BackupManager.PREFIX.length),
+        path: backupPath,
+        createdAt:
+          manifest?.createdAt ??
+          (await fs.stat(backupPath)).mtime.toISOString(),
+        files: manifest?.files.length,
+      });
+    }
+
+    return backups.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /** What rolling back to a backup (the latest by default) would do */
+  public async plan(timestamp?: string): Promise<RollbackPlan> {
+    const backups = await this.list();
+    const backup = timestamp
+      ? backups.find((b) => b.timestamp === timestamp)
+      : backups[0];
+    if (!backup) {
+      throw new Error(
+        timestamp
+          ? `No backup ${timestamp} in ${this.getBackupDir()}`
+          : `No backups in ${this.getBackupDir()}`
+      );
+    }
+
+    const manifest = await this.readManifest(backup.path);
+    if (!manifest) {
+      throw new Error(
+        `Backup ${backup.timestamp} has no manifest of modified files; copy its files back manually`
+      );
+    }
+
+    const entries: RollbackEntry[] = [];
+    for (const file of manifest.files) {
+      const filePath = path.resolve(file.path);
+      const current = (await fs.pathExists(filePath))
+        ? BackupManager.hash(await fs.readFile(filePath, 'utf8'))
+        : undefined;
+
+      entries.push({
+        filePath: file.path,
+        action: file.backup ? 'restore' : 'delete',
+        source: file.backup && path.join(backup.path, file.backup),
+        edited: current !== file.hash,
+      });
+    }
+
+    return { backup, entries };
+  }
+
+  public async rollback(plan: RollbackPlan): Promise<void> {
+    for (const entry of plan.entries) {
+      if (entry.source) {
+        await fs.copy(entry.source, path.resolve(entry.filePath));
+      } else {
+        await fs.remove(path.resolve(entry.filePath));
+      }
+    }
+  }
+
+  private getBackupDir(): string {
+    return this.config.backupDir || './i18n-backup';
+  }
+
+  /**
+   * Where the backup keeps the original of a file: its copy of srcDir or
+   * outputDir, or else a copy made now
+   */
+  private async storeOriginal(
+    backupPath: string,
+    filePath: string,
+    original: string
+  ): Promise<string> {
+    const copies: [string, string][] = [
+      [this.config.srcDir, 'src'],
+      [this.config.outputDir, 'locales'],
+    ];
+    for (const [dir, copy] of copies) {
+      const relative = path.relative(path.resolve(dir), filePath);
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        const backup = path.join(copy, relative);
+        if (await fs.pathExists(path.join(backupPath, backup))) {
+          return backup.replace(/\\/g, '/');
+        }
+      }
+    }
+
+    const backup = path.join('files', path.relative(process.cwd(), filePath));
+    await fs.outputFile(path.join(backupPath, backup), original, 'utf8');
+    return backup.replace(/\\/g, '/');
+  }
+
+  private async readManifest(backupPath: string): Promise<Manifest | null> {
+    const manifestPath = path.join(backupPath, BackupManager.MANIFEST);
+    if (!(await fs.pathExists(manifestPath))) return null;
+    return fs.readJson(manifestPath);
+  }
+
+  private async writeManifest(
+    backupPath: string,
+    manifest: Manifest
+  ): Promise<void> {
+    await fs.outputJson(
+      path.join(backupPath, BackupManager.MANIFEST),
+      manifest,
+      {
+        spaces: 2,
+      }
+    );
+  }
+
+  private static hash(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+}
+
+export default BackupManager;
@@ -0,0 +1,936 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as glob from 'glob';
+import {
+  I18nConfig,
+  TransformationResult,
+  TransformationStats,
+  TextExtraction,
+  ComponentInfo,
+  KeyContext,
+  KeyRequest,
+  IsolatedTransform,
+} from '../types';
+import { ConfigManager } from './ConfigManager';
+import { TextValidator } from '../utils/TextValidator';
+import { FileWriter } from '../utils/FileWriter';
+import { LocaleFormat } from '../utils/LocaleFormat';
+import { PluralForms } from '../utils/PluralForms';
+import { PseudoLocalizer } from '../utils/PseudoLocalizer';
+import { TranslationMemory } from '../utils/TranslationMemory';
+import { ExtractionCache } from '../utils/ExtractionCache';
+import { Git } from '../utils/Git';
+import { ParallelTransform } from './ParallelTransform';
+import { BackupManager } from './BackupManager';
+import { GitGuard } from './GitGuard';
+
+/**
+ * JSX attributes whose string values are user-facing, mapped to the
+ * extraction type they are reported as
+ */
+export const TRANSLATABLE_ATTRIBUTES: Record<string, TextExtraction['type']> = {
+  placeholder: 'placeholder',
+  title: 'title',
+  alt: 'attribute',
+  'aria-label': 'aria-label',
+};
+
+export interface InterpolationValue {
+  name: string;
+  expression: string;
+}
+
+/** Singular and plural message of a text run that depends on a count */
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
+
+/**
+ * One child of a text run, read from the syntax tree: literal text, a
+ * count-dependent fragment, or a reference that is interpolated under
+ * `name` unless another value already took it
+ */
+export type MessagePart =
+  | { kind: 'text'; text: string }
+  | { kind: 'plural'; count: string; one: string; other: string }
+  | { kind: 'value'; expression: string; name: string };
+
+interface Message {
+  text: string;
+  values?: InterpolationValue[];
+  plural?: PluralMessage;
+}
+
+/** The outcome of rewriting one file's source */
+export interface RewrittenFile {
+  content: string;
+  changed: boolean;
+  count: number; // Texts replaced
+}
+
+/**
+ * The pipeline both transformers share: file selection, key assignment,
+ * backups and git, parallel runs, and locale file generation. Subclasses
+ * parse and rewrite single files with their own syntax tree.
+ */
+export abstract class BaseTransformer {
+  protected config: I18nConfig;
+  protected validator: TextValidator;
+  protected writer: FileWriter;
+  protected localeFormat: LocaleFormat;
+  protected keyTexts: Map<string, string> = new Map(); // Key → text
+  protected translationKeys: Map<string, string> = new Map(); // Text → key
+  protected pluralMessages: Map<string, PluralMessage> = new Map();
+  protected keyNamespaces: Map<string, Set<string>> = new Map();
+  protected memory?: TranslationMemory;
+  protected cache?: ExtractionCache;
+  protected fileKeys: Set<string> = new Set(); // Of the file being transformed
+  protected translationsLoaded = false;
+  protected isolation?: {
+    requests: KeyRequest[];
+    keys: string[];
+    assigned?: string[]; // By the main thread, in request order
+  };
+  protected stats: TransformationStats = {
+    filesProcessed: 0,
+    textsTransformed: 0,
+    importsAdded: 0,
+    hooksAdded: 0,
+    buttonsFixed: 0,
+    attributesTransformed: 0,
+    codeFragmentsFiltered: 0,
+    duplicatesFound: 0,
+    errors: [],
+    warnings: [],
+  };
+  protected extractedTexts: TextExtraction[] = [];
+  protected componentInfo: ComponentInfo[] = [];
+
+  /** Worker type that runs this transformer in parallel runs */
+  protected abstract readonly type: 'typescript' | 'javascript';
+  /** How the start of a run and the files it found are reported */
+  protected abstract readonly title: string;
+  protected abstract readonly fileLabel: string;
+
+  constructor(config?: I18nConfig) {
+    this.config = config || ConfigManager.getInstance().getConfig();
+    this.validator = new TextValidator(this.config);
+    this.writer = new FileWriter(!!this.config.advanced.dryRun);
+    this.localeFormat = new LocaleFormat(this.config);
+    this.resetStats();
+  }
+
+  /**
+   * Collect translatable texts from a single file without modifying it. The
+   * file's component info is recorded for getComponentInfo().
+   */
+  public abstract extractFile(filePath: string): Promise<TextExtraction[]>;
+
+  /**
+   * Rewrite one file's texts to translation calls, recording its extracted
+   * texts, component info and stats. Nothing is written to disk.
+   */
+  protected abstract rewriteFile(filePath: string): Promise<RewrittenFile>;
+
+  /** A transformer of the same kind, for parallel runs on the main thread */
+  protected abstract createWorkerTransformer(
+    config: I18nConfig
+  ): BaseTransformer;
+
+  /** Report configured options this transformer can't honour */
+  protected warnUnsupportedOptions(): void {}
+
+  /** Only the TypeScript transformer has type definitions to write */
+  protected async generateTypeDefinitions(): Promise<void> {}
+
+  /** Glob patterns, relative to `srcDir`, of the files to transform */
+  protected getIncludePatterns(): string[] {
+    return this.config.include;
+  }
+
+  protected isSourceFile(_filePath: string): boolean {
+    return true;
+  }
+
+  protected resetStats(): void {
+    this.stats = {
+      filesProcessed: 0,
+      textsTransformed: 0,
+      importsAdded: 0,
+      hooksAdded: 0,
+      buttonsFixed: 0,
+      attributesTransformed: 0,
+      codeFragmentsFiltered: 0,
+      duplicatesFound: 0,
+      errors: [],
+      warnings: [],
+    };
+  }
+
+  public async transform(): Promise<TransformationResult> {
+    let backupPath: string | undefined;
+    try {
+      console.log(`🚀 Starting ${this.title} Transformation...\n`);
+      this.warnUnsupportedOptions();
+
+      // Load existing translations
+      await this.loadExistingTranslations();
+
+      // Find and process files
+      const files = await this.findFiles();
+      console.log(`📁 Found ${files.length} ${this.fileLabel} to process\n`);
+
+      const pending = await this.selectFiles(files);
+      const git = this.writer.isDryRun()
+        ? undefined
+        : new GitGuard(this.config);
+      const committed = git?.prepare(pending) ?? false;
+
+      // Create backup if enabled, unless git can restore every file (a dry
+      // run leaves nothing to restore)
+      if (this.config.advanced.createBackup && !this.writer.isDryRun()) {
+        if (committed) {
+          console.log('💾 Skipping backup: the files are committed in git\n');
+        } else {
+          backupPath = await new BackupManager(this.config).create();
+        }
+      }
+
+      // Process each file
+      if (Math.min(this.config.advanced.workers || 0, pending.length) > 1) {
+        await this.transformInParallel(pending);
+      } else {
+        for (const filePath of pending) {
+          await this.transformFile(filePath);
+        }
+      }
+
+      // Generate translation files
+      await this.generateTranslationFiles();
+      if (this.cache && !this.writer.isDryRun()) {
+        await this.cache.save(files);
+      }
+
+      // Generate type definitions if enabled
+      if (this.config.advanced.generateTypeDefinitions) {
+        await this.generateTypeDefinitions();
+      }
+
+      const commit = git?.commit(
+        [...this.writer.getOriginals().keys()],
+        this.stats
+      );
+
+      return {
+        success: true,
+        stats: this.stats,
+        translationKeys: this.translationKeys,
+        keyTexts: this.keyTexts,
+        modifiedFiles: files,
+        backupPath,
+        commit,
+        fileChanges: this.writer.isDryRun()
+          ? this.writer.getChanges()
+          : undefined,
+      };
+    } catch (error) {
+      this.stats.errors.push(
+        `Transformation failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return {
+        success: false,
+        stats: this.stats,
+        translationKeys: this.translationKeys,
+        keyTexts: this.keyTexts,
+        modifiedFiles: [],
+        backupPath,
+      };
+    } finally {
+      // Also after a failure, so the files written so far can be rolled back
+      if (backupPath) {
+        await new BackupManager(this.config).record(
+          backupPath,
+          this.writer.getOriginals()
+        );
+      }
+    }
+  }
+
+  /**
+   * Collect translatable texts from every matched file without modifying any
+   * source or locale file
+   */
+  public async extract(): Promise<TextExtraction[]> {
+    this.warnUnsupportedOptions();
+    await this.loadExistingTranslations();
+
+    const files = await this.findFiles();
+    for (const filePath of files) {
+      try {
+        this.extractedTexts.push(...(await this.extractFile(filePath)));
+      } catch (error) {
+        this.stats.errors.push(
+          `Error extracting ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return this.getExtractedTexts();
+  }
+
+  /**
+   * Re-read a file that changed while watching, adding the texts it gained
+   * to the locale files. The file itself is only rewritten with `fix`.
+   * Returns the texts whose keys weren't known before, or with `fix` every
+   * text that was rewritten.
+   */
+  public async update(
+    filePath: string,
+    fix = false
+  ): Promise<TextExtraction[]> {
+    if (!this.translationsLoaded) {
+      await this.loadExistingTranslations();
+      this.translationsLoaded = true;
+    }
+
+    const known = new Set(this.keyTexts.keys());
+    const errors = this.stats.errors.length;
+    this.extractedTexts = [];
+    this.componentInfo = [];
+
+    if (fix) {
+      await this.transformFile(filePath);
+      if (this.stats.errors.length > errors) {
+        throw new Error(this.stats.errors[this.stats.errors.length - 1]);
+      }
+    } else {
+      this.extractedTexts = await this.extractFile(filePath);
+    }
+
+    const namespace = this.localeFormat.getNamespace(filePath);
+    const found = fix
+      ? this.extractedTexts
+      : this.extractedTexts.filter((text) => !known.has(text.key));
+    if (found.length > 0) {
+      found.forEach((text) => this.addToNamespace(text.key, namespace));
+      await this.generateTranslationFiles();
+      if (this.config.advanced.generateTypeDefinitions) {
+        await this.generateTypeDefinitions();
+      }
+    }
+
+    return found;
+  }
+
+  protected async loadExistingTranslations(): Promise<void> {
+    const sourceFiles = await this.localeFormat.getLocaleFiles(
+      this.config.sourceLanguage
+    );
+
+    if (sourceFiles.length > 0) {
+      try {
+        for (const { namespace, filePath } of sourceFiles) {
+          const translations = await this.localeFormat.read(filePath);
+          Object.entries(translations).forEach(([key, value]) => {
+            if (typeof value !== 'string') return;
+
+            // Plural forms are tracked under their base key
+            const plural = PluralForms.splitKey(key);
+            if (
+              plural &&
+              PluralForms.getKey(plural.base, 'other') in translations
+            ) {
+              if (plural.category === 'other') {
+                this.addTranslationKey(plural.base, value);
+                this.addToNamespace(plural.base, namespace);
+                this.pluralMessages.set(plural.base, {
+                  one: String(
+                    translations[PluralForms.getKey(plural.base, 'one')] ??
+                      value
+                  ),
+                  other: value,
+                });
+              }
+              return;
+            }
+
+            if (this.validator.isValidTranslationText(value)) {
+              this.addTranslationKey(key, value);
+              this.addToNamespace(key, namespace);
+            }
+          });
+        }
+        console.log(`📚 Loaded ${this.keyTexts.size} existing translations`);
+      } catch (error) {
+        this.stats.warnings.push(
+          `Could not load existing translations: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  protected async findFiles(): Promise<string[]> {
+    const patterns = this.getIncludePatterns().map((pattern) => {
+      // Use path.posix for glob patterns (always forward slashes)
+      const normalizedSrcDir = this.config.srcDir.replace(/\\/g, '/');
+      const normalizedPattern = pattern.replace(/\\/g, '/');
+      return path.posix.join(normalizedSrcDir, normalizedPattern);
+    });
+
+    let files: string[] = [];
+
+    for (const pattern of patterns) {
+      const matches = glob.sync(pattern, {
+        ignore: this.config.exclude.map((ex) => ex.replace(/\\/g, '/')),
+      });
+      files = files.concat(matches);
+    }
+
+    // Remove duplicates and sort
+    return [...new Set(files.filter((file) => this.isSourceFile(file)))].sort();
+  }
+
+  /**
+   * Leave out files unchanged since `advanced.since` and, in incremental
+   * mode, files whose content and keys match the cache of the last run
+   */
+  protected async selectFiles(files: string[]): Promise<string[]> {
+    let selected = files;
+
+    if (this.config.advanced.since) {
+      const changed = new Set(Git.getChangedFiles(this.config.advanced.since));
+      selected = selected.filter((file) => changed.has(path.resolve(file)));
+    }
+
+    if (this.config.advanced.incremental) {
+      this.cache = new ExtractionCache(
+        path.resolve(this.config.advanced.cacheFile || '.i18ner-cache.json'),
+        this.config
+      );
+      await this.cache.load();
+
+      const pending: string[] = [];
+      for (const file of selected) {
+        // A key missing from the locale files means they were edited by hand
+        const keys = this.cache.get(file, await fs.readFile(file, 'utf8'));
+        if (!keys || keys.some((key) => !this.keyTexts.has(key))) {
+          pending.push(file);
+        }
+      }
+      selected = pending;
+    }
+
+    if (selected.length < files.length) {
+      console.log(
+        `⏭️  Skipping ${files.length - selected.length} unchanged files\n`
+      );
+    }
+    return selected;
+  }
+
+  /**
+   * Transform files on `advanced.workers` threads, with the same keys and
+   * output as a serial run (see ParallelTransform)
+   */
+  protected async transformInParallel(files: string[]): Promise<void> {
+    const results = await ParallelTransform.run({
+      type: this.type,
+      config: this.config,
+      files,
+      workers: this.config.advanced.workers!,
+      assignKeys: (requests) =>
+        requests.map(({ text, context }) => this.assignKey(text, context)),
+      createTransformer: (config) => this.createWorkerTransformer(config),
+    });
+
+    for (const result of results) {
+      const namespace = this.localeFormat.getNamespace(result.filePath);
+      result.keys.forEach((key) => this.addToNamespace(key, namespace));
+      Object.entries(result.plurals).forEach(([key, plural]) =>
+        this.pluralMessages.set(key, plural)
+      );
+      this.extractedTexts.push(...result.extractedTexts);
+      this.componentInfo.push(...result.componentInfo);
+      ParallelTransform.mergeStats(this.stats, result.stats);
+      result.logs.forEach((line) => console.log(line));
+
+      if (result.content !== undefined) {
+        await this.writer.write(result.filePath, result.content);
+      }
+      if (result.stats.errors.length === 0) {
+        this.cache?.set(
+          result.filePath,
+          result.content ?? (await fs.readFile(result.filePath, 'utf8')),
+          [...new Set(result.keys)]
+        );
+      }
+    }
+  }
+
+  /**
+   * Worker side of parallel runs: transform one file without writing it,
+   * recording the key requests. Given `keys` assigned on the main thread,
+   * those are used in order instead of the ones this transformer would pick.
+   */
+  public async transformIsolated(
+    filePath: string,
+    keys?: string[]
+  ): Promise<IsolatedTransform> {
+    if (!this.translationsLoaded) {
+      // The main thread has already reported loading them
+      await ParallelTransform.captureLogs(() =>
+        this.loadExistingTranslations()
+      );
+      this.translationsLoaded = true;
+    }
+
+    this.isolation = { requests: [], keys: [], assigned: keys };
+    this.writer = new FileWriter(true);
+    this.extractedTexts = [];
+    this.componentInfo = [];
+    this.resetStats();
+
+    const { logs } = await ParallelTransform.captureLogs(() =>
+      this.transformFile(filePath)
+    );
+    const { requests, keys: used } = this.isolation;
+    this.isolation = undefined;
+
+    const plurals: IsolatedTransform['plurals'] = {};
+    used.forEach((key) => {
+      const plural = this.pluralMessages.get(key);
+      if (plural) plurals[key] = plural;
+    });
+
+    return {
+      filePath,
+      content: this.writer
+        .getChanges()
+        .find((change) => change.filePath === filePath)?.after,
+      requests,
+      keys: used,
+      plurals: plurals,
+      extractedTexts: this.extractedTexts,
+      componentInfo: this.componentInfo,
+      stats: this.getStats(),
+      logs,
+    };
+  }
+
+  protected async transformFile(filePath: string): Promise<void> {
+    try {
+      this.fileKeys = new Set();
+      const relativePath = path.relative(process.cwd(), filePath);
+      const { content, changed, count } = await this.rewriteFile(filePath);
+
+      // Save changes
+      if (changed) {
+        await this.writer.write(filePath, content);
+        console.log(`✅ Transformed ${relativePath} (${count} texts)`);
+      }
+      this.cache?.set(filePath, content, [...this.fileKeys]);
+
+      this.stats.filesProcessed++;
+    } catch (error) {
+      this.stats.errors.push(
+        `Error transforming ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Join the parts of a text run into its message, with a plural form when
+   * it has a count. Undefined unless the words around the placeholders make
+   * a translatable text.
+   */
+  protected composeMessage(parts: MessagePart[]): Message | undefined {
+    if (
+      !parts.some(
+        (part) =>
+          part.kind === 'plural' || (part.kind === 'text' && part.text.trim())
+      )
+    ) {
+      return undefined;
+    }
+
+    let message = '';
+    let singular = '';
+    let staticText = '';
+    const values: InterpolationValue[] = [];
+
+    // i18next selects the plural form from the `count` option, so the
+    // count claims that name before any other placeholder
+    let count: string | undefined;
+    for (const part of parts) {
+      if (part.kind === 'plural') {
+        count = part.count;
+        break;
+      }
+    }
+    if (count) values.push({ name: 'count', expression: count });
+
+    for (const part of parts) {
+      if (part.kind === 'text') {
+        message += part.text;
+        singular += part.text;
+        staticText += part.text;
+      } else if (part.kind === 'plural') {
+        // One count per message; a second one can't be expressed
+        if (part.count !== count) return undefined;
+        message += part.other;
+        singular += part.one;
+        staticText += ` ${part.other.replace(/\{\{count\}\}/g, ' ')} `;
+      } else {
+        const name = this.addPlaceholder(values, part.expression, part.name);
+        message += `{{${name}}}`;
+        singular += `{{${name}}}`;
+        staticText += ' ';
+      }
+    }
+
+    // Validate the words around the placeholders, not the placeholders
+    if (
+      !this.validator.isValidTranslationText(
+        staticText.trim().replace(/\s+/g, ' ')
+      )
+    ) {
+      return undefined;
+    }
+
+    const text = message.trim().replace(/\s+/g, ' ');
+    return {
+      text,
+      values: values.length > 0 ? values : undefined,
+      plural: count
+        ? { one: singular.trim().replace(/\s+/g, ' '), other: text }
+        : undefined,
+    };
+  }
+
+  /**
+   * The placeholder of `expression` in `values`, added under `base` (or
+   * `base2`, `base3`... once taken) the first time the expression is seen
+   */
+  protected addPlaceholder(
+    values: InterpolationValue[],
+    expression: string,
+    base: string
+  ): string {
+    const existing = values.find((value) => value.expression === expression);
+    if (existing) return existing.name;
+
+    let name = base;
+    for (let i = 2; values.some((value) => value.name === name); i++) {
+      name = `${base}${i}`;
+    }
+
+    values.push({ name, expression });
+    return name;
+  }
+
+  /**
+   * Message fragments of `count <operator> 1 ? whenTrue : whenFalse` (or
+   * `1 <operator> count`), for equality operators only
+   */
+  protected getPluralForms(
+    operator: string,
+    whenTrue: string,
+    whenFalse: string
+  ): PluralMessage | undefined {
+    switch (operator) {
+      case '===':
+      case '==':
+        return { one: whenTrue, other: whenFalse };
+      case '!==':
+      case '!=':
+        return { one: whenFalse, other: whenTrue };
+      default:
+        return undefined;
+    }
+  }
+
+  /** Message fragments of `count + noun`, e.g. `n + ' files'` */
+  protected getNounPluralForms(noun: string): PluralMessage | undefined {
+    if (!/^\s+\w/.test(noun)) return undefined;
+
+    return {
+      one: `{{count}}${PluralForms.singularize(noun)}`,
+      other: `{{count}}${noun}`,
+    };
+  }
+
+  /** The indentation step of a file, from its first indented line */
+  protected getIndentUnit(content: string): string {
+    return /^([ \t]+)\S/m.exec(content)?.[1] || '  ';
+  }
+
+  /** Leading whitespace of the line `position` is on */
+  protected getIndentation(content: string, position: number): string {
+    const lineStart = content.lastIndexOf('\n', position - 1) + 1;
+    return /^[ \t]*/.exec(content.slice(lineStart))![0];
+  }
+
+  protected createTranslationCall(
+    key: string,
+    values?: InterpolationValue[]
+  ): string {
+    if (!values) return `t(${this.quoteKey(key)})`;
+
+    return `t(${this.quoteKey(key)}, ${this.createValuesObject(values)})`;
+  }
+
+  protected quoteKey(key: string): string {
+    return `'${key.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+
+  protected createValuesObject(values: InterpolationValue[]): string {
+    const properties = values
+      .map(({ name, expression }) =>
+        name === expression ? name : `${name}: ${expression}`
+      )
+      .join(', ');
+    return `{ ${properties} }`;
+  }
+
+  protected getOrCreateKey(text: string, context: KeyContext): string {
+    const isolation = this.isolation;
+    const assigned = isolation?.assigned?.[isolation.requests.length];
+    if (assigned !== undefined) this.addTranslationKey(assigned, text.trim());
+    const key = assigned ?? this.assignKey(text, context);
+
+    isolation?.requests.push({ text, context });
+    isolation?.keys.push(key);
+    this.fileKeys.add(key);
+    return key;
+  }
+
+  protected assignKey(text: string, context: KeyContext): string {
+    const cleanText = text.trim();
+    const strategy = this.config.format.keyStrategy;
+
+    // Keys derived from the text alone are shared by every occurrence, which
+    // also keeps keys renamed in the locale file
+    if (strategy !== 'namespaced' && this.translationKeys.has(cleanText)) {
+      return this.translationKeys.get(cleanText)!;
+    }
+
+    const base = this.validator.suggestKeyName(cleanText, strategy, context);
+    let key = base;
+    for (
+      let i = 2;
+      this.keyTexts.has(key) && this.keyTexts.get(key) !== cleanText;
+      i++
+    ) {
+      key = `${base}_${i}`;
+    }
+
+    this.addTranslationKey(key, cleanText);
+    return key;
+  }
+
+  protected addTranslationKey(key: string, text: string): void {
+    this.keyTexts.set(key, text);
+    if (!this.translationKeys.has(text)) this.translationKeys.set(text, key);
+  }
+
+  /** A key shared by several features is written to each of their files */
+  protected addToNamespace(key: string, namespace?: string): void {
+    if (!namespace) return;
+    if (!this.keyNamespaces.has(key)) this.keyNamespaces.set(key, new Set());
+    this.keyNamespaces.get(key)!.add(namespace);
+  }
+
+  protected async generateTranslationFiles(): Promise<void> {
+    this.memory = await this.loadTranslationMemory();
+
+    if (!this.localeFormat.isNamespaced()) {
+      await this.generateLocaleFiles([...this.keyTexts.keys()]);
+      await this.writeTranslationReview();
+      return;
+    }
+
+    // One set of files per namespace, each with the keys used in it
+    const namespaces = new Set(
+      [...this.keyNamespaces.values()].flatMap((set) => [...set])
+    );
+    for (const namespace of [...namespaces].sort()) {
+      const keys = [...this.keyTexts.keys()].filter((key) =>
+        this.keyNamespaces.get(key)?.has(namespace)
+      );
+      await this.generateLocaleFiles(keys, namespace);
+    }
+    await this.writeTranslationReview();
+  }
+
+  /** Read before any locale file is rewritten */
+  protected async loadTranslationMemory(): Promise<
+    TranslationMemory | undefined
+  > {
+    if (!this.config.translation.memory) return undefined;
+
+    try {
+      return await TranslationMemory.load(this.config, this.localeFormat);
+    } catch (error) {
+      this.stats.warnings.push(
+        `Could not load the translation memory: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return undefined;
+    }
+  }
+
+  /** Suggestions are recomputed on every run, so stale ones disappear */
+  protected async writeTranslationReview(): Promise<void> {
+    if (!this.memory) return;
+
+    const filled = this.memory.getFilledCount();
+    if (filled > 0) {
+      console.log(`🧠 Filled ${filled} translations from translation memory`);
+    }
+
+    const reviewFile = path.resolve(this.config.translation.reviewFile);
+    const count = this.memory.getSuggestionCount();
+    if (count === 0 && !(await fs.pathExists(reviewFile))) return;
+
+    await this.writer.writeJson(
+      reviewFile,
+      this.memory.getSuggestions(),
+      this.config.format.indent
+    );
+    if (count > 0) {
+      console.log(
+        `🔍 ${count} similar translations to review in ${reviewFile}`
+      );
+    }
+  }
+
+  /**
+   * An earlier translation of the same text, or '' to leave the key for a
+   * translator
+   */
+  protected recall(
+    language: string,
+    key: string,
+    text: string | undefined,
+    namespace?: string
+  ): string {
+    if (!this.memory || text === undefined) return '';
+    return this.memory.recall(
+      language,
+      namespace ? `${namespace}:${key}` : key,
+      text
+    );
+  }
+
+  protected async generateLocaleFiles(
+    keys: string[],
+    namespace?: string
+  ): Promise<void> {
+    // Create the source language file
+    const sourceTranslations: Record<string, string> = {};
+    keys.forEach((key) => {
+      const text = this.keyTexts.get(key)!;
+      const plural = this.pluralMessages.get(key);
+      if (plural) {
+        sourceTranslations[PluralForms.getKey(key, 'one')] = plural.one;
+        sourceTranslations[PluralForms.getKey(key, 'other')] = plural.other;
+      } else {
+        sourceTranslations[key] = text;
+      }
+    });
+
+    // Write source language file
+    const sourceFile = this.localeFormat.getLocalePath(
+      this.config.sourceLanguage,
+      namespace
+    );
+    await this.writer.writeJson(
+      sourceFile,
+      this.localeFormat.serialize(sourceTranslations),
+      this.config.format.indent
+    );
+    console.log(
+      `📝 Generated ${sourceFile} with ${Object.keys(sourceTranslations).length} keys`
+    );
+
+    // Create target language files
+    for (const lang of this.config.targetLanguages) {
+      const targetFile = this.localeFormat.getLocalePath(lang, namespace);
+
+      let targetTranslations: Record<string, unknown> = {};
+
+      // Load existing translations if file exists
+      if (await fs.pathExists(targetFile)) {
+        try {
+          targetTranslations = await this.localeFormat.read(targetFile);
+        } catch (error) {
+          this.stats.warnings.push(
+            `Could not load existing ${lang} translations`
+          );
+        }
+      }
+
+      // Add new keys, empty unless already translated under another key, with
+      // the plural categories of the target language rather than the source
+      keys.forEach((key) => {
+        const targetKeys = this.pluralMessages.has(key)
+          ? PluralForms.getCategories(lang).map((category) =>
+              PluralForms.getKey(key, category)
+            )
+          : [key];
+
+        targetKeys.forEach((targetKey) => {
+          if (!targetTranslations[targetKey]) {
+            targetTranslations[targetKey] = this.recall(
+              lang,
+              targetKey,
+              sourceTranslations[targetKey],
+              namespace
+            );
+          }
+        });
+      });
+
+      // Sort and write
+      await this.writer.writeJson(
+        targetFile,
+        this.localeFormat.serialize(targetTranslations),
+        this.config.format.indent
+      );
+      console.log(`📝 Generated ${targetFile} template`);
+    }
+
+    // The pseudo locale is derived from the source, so it's rewritten whole
+    if (this.config.pseudoLanguage) {
+      const pseudoFile = this.localeFormat.getLocalePath(
+        this.config.pseudoLanguage,
+        namespace
+      );
+      await this.writer.writeJson(
+        pseudoFile,
+        this.localeFormat.serialize(
+          PseudoLocalizer.localizeAll(
+            sourceTranslations,
+            this.config.pseudoLanguage
+          )
+        ),
+        this.config.format.indent
+      );
+      console.log(`📝 Generated ${pseudoFile} pseudo-translations`);
+    }
+  }
+
+  public getStats(): TransformationStats {
+    return { ...this.stats };
+  }
+
+  public getExtractedTexts(): TextExtraction[] {
+    return [...this.extractedTexts];
+  }
+
+  public getComponentInfo(): ComponentInfo[] {
+    return [...this.componentInfo];
+  }
+}
+
+export default BaseTransformer;
@@ -43,6 +43,17 @@ export class ConfigManager {
         extractTooltips: true,
         extractAriaLabels: true,
         extractPlaceholders: true,
+        extractRichText: false,
+        extractModuleStrings: false,
+        extractStringLiterals: false,
+        stringLiteralCallees: [
+          'alert',
+          'confirm',
+          'prompt',
+          'toast',
+          'Error',
+          'useState',
+        ],
       },
 
       components: {
@@ -67,6 +78,22 @@ export class ConfigManager {
         keyStrategy: 'text',
         keyPrefix: '',
         keySeparator: '.',
+        structure: 'flat',
+        namespaces: {},
+        defaultNamespace: 'common',
+      },
+
+      translation: {
+        provider: 'dictionary',
+        dictionaryPath: './translations/dictionary.json',
+        batchSize: 50,
+        memory: true,
+        fuzzyThreshold: 0.8,
+        reviewFile: './translations/review.json',
+      },
+
+      git: {
+        requireClean: true,
       },
 
       advanced: {
@@ -74,6 +101,9 @@ export class ConfigManager {
         handleNestedComponents: true,
         generateTypeDefinitions: true,
         createBackup: true,
+        incremental: false,
+        cacheFile: '.i18ner-cache.json',
+        workers: 0,
       },
     };
   }
@@ -401,57 +431,64 @@ export class ConfigManager {
     };
   }
 
-  public loadConfig(configPath?: string): I18nConfig {
+  public loadConfig(
+    configPath?: string,
+    options: { quiet?: boolean } = {}
+  ): I18nConfig {
+    // Whatever the file leaves out comes from the detected project structure
+    this.config = this.mergeConfigs(
+      this.getSmartDefaultConfig(),
+      this.readUserConfig(configPath, !!options.quiet) || {}
+    );
+    return this.config;
+  }
+
+  /** The given config file, or the first of the common ones that exists */
+  private readUserConfig(
+    configPath: string | undefined,
+    quiet: boolean
+  ): Partial<I18nConfig> | undefined {
     if (configPath && fs.existsSync(configPath)) {
       try {
-        const userConfig = fs.readJsonSync(configPath);
-        this.config = this.mergeConfigs(
-          this.getSmartDefaultConfig(),
-          userConfig
-        );
+        return fs.readJsonSync(configPath);
       } catch (error) {
         console.warn(
           `Warning: Could not load config from ${configPath}, using defaults`
         );
+        return undefined;
       }
-    } else {
-      // Look for common config file names
-      const commonPaths = [
-        './react-auto-i18ner.config.json',
-        './i18n.config.json',
-        './.i18nrc.json',
-        './package.json',
-      ];
-
-      for (const path of commonPaths) {
-        if (fs.existsSync(path)) {
-          try {
-            let config;
-            if (path.endsWith('package.json')) {
-              const pkg = fs.readJsonSync(path);
-              config = pkg['react-auto-i18ner'] || pkg['i18n'];
-            } else {
-              config = fs.readJsonSync(path);
-            }
-
-            if (config) {
-              this.config = this.mergeConfigs(
-                this.getSmartDefaultConfig(),
-                config
-              );
-              console.log(`📋 Loaded configuration from ${path}`);
-              break;
-            }
-          } catch (error) {
-            // Continue to next file
+    }
+
+    // Look for common config file names
+    const commonPaths = [
+      './react-auto-i18ner.config.json',
+      './i18n.config.json',
+      './.i18nrc.json',
+      './package.json',
+    ];
+
+    for (const path of commonPaths) {
+      if (fs.existsSync(path)) {
+        try {
+          let config;
+          if (path.endsWith('package.json')) {
+            const pkg = fs.readJsonSync(path);
+            config = pkg['react-auto-i18ner'] || pkg['i18n'];
+          } else {
+            config = fs.readJsonSync(path);
+          }
+
+          if (config) {
+            if (!quiet) console.log(`📋 Loaded configuration from ${path}`);
+            return config;
           }
+        } catch (error) {
+          // Continue to next file
         }
       }
     }
 
-    // No config file found, use smart defaults with detected directory structure
-    this.config = this.getSmartDefaultConfig();
-    return this.config;
+    return undefined;
   }
 
   public saveConfig(
@@ -490,6 +527,14 @@ export class ConfigManager {
         ...base.format,
         ...(override.format || {}),
       },
+      translation: {
+        ...base.translation,
+        ...(override.translation || {}),
+      },
+      git: {
+        ...base.git,
+        ...(override.git || {}),
+      },
       advanced: {
         ...base.advanced,
         ...(override.advanced || {}),
@@ -531,6 +576,22 @@ export class ConfigManager {
       }
     });
 
+    // The pseudo locale is regenerated on every run
+    if (
+      config.pseudoLanguage &&
+      (config.pseudoLanguage === config.sourceLanguage ||
+        config.targetLanguages?.includes(config.pseudoLanguage))
+    ) {
+      errors.push(
+        `Pseudo language ${config.pseudoLanguage} must not be the source or a target language`
+      );
+    }
+
+    const workers = config.advanced?.workers;
+    if (workers !== undefined && !(Number.isInteger(workers) && workers >= 0)) {
+      errors.push(`Invalid number of workers: ${workers}`);
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -0,0 +1,116 @@
+import * as path from 'path';
+import * as glob from 'glob';
+import { I18nConfig, TransformationStats } from '../types';
+import { Git } from '../utils/Git';
+
+/**
+ * Git as the safety net of a transform. Files with uncommitted changes are
+ * left alone unless `git.requireClean` is off, and with `git.branch` the
+ * result is committed onto a new branch once the transform succeeded. Where
+ * git tracks every file the transform may overwrite and holds it unchanged,
+ * no folder backup is needed.
+ */
+export class GitGuard {
+  private config: I18nConfig;
+  private cwd: string;
+  private root?: string;
+
+  constructor(config: I18nConfig) {
+    this.config = config;
+    this.cwd = path.resolve(config.srcDir);
+    this.root = Git.getRoot(this.cwd);
+  }
+
+  /**
+   * Check the files about to be transformed, plus the locale files, and
+   * that the new branch is free. Returns whether git can restore all of
+   * them, i.e. each one is tracked and clean.
+   */
+  public prepare(files: string[]): boolean {
+    const { requireClean, branch } = this.config.git;
+    if (!this.root) {
+      if (branch) {
+        throw new Error(
+          `Cannot commit onto ${branch}: ${this.config.srcDir} is not in a git work tree`
+        );
+      }
+      return false;
+    }
+
+    const outputDir = path.resolve(this.config.outputDir);
+    const touched = new Set(files.map((file) => path.resolve(file)));
+    const dirs = [this.cwd, outputDir].filter((dir) =>
+      GitGuard.contains(this.root!, dir)
+    );
+    const dirty = Git.getUncommittedFiles(dirs, this.cwd).filter(
+      (file) => touched.has(file) || GitGuard.contains(outputDir, file)
+    );
+
+    // Uncommitted edits would end up in the generated commit
+    if (dirty.length > 0 && (requireClean || branch)) {
+      const list = dirty.map((file) => path.relative(process.cwd(), file));
+      throw new Error(
+        `Uncommitted changes in ${dirty.length} files to be transformed: ${list.join(', ')}. Commit or stash them first${branch ? '' : ', or pass --allow-dirty'}`
+      );
+    }
+
+    if (branch && Git.hasBranch(branch, this.cwd)) {
+      throw new Error(
+        `Cannot commit onto ${branch}: the branch already exists`
+      );
+    }
+
+    // Ignored files and locale files outside the work tree have no history
+    const tracked = new Set(Git.getTrackedFiles(dirs, this.cwd));
+    const locales = glob.sync('**/*', {
+      cwd: outputDir,
+      nodir: true,
+      absolute: true,
+    });
+    const untracked = [
+      ...touched,
+      ...locales.map((file) => path.resolve(file)),
+    ].filter((file) => !tracked.has(file));
+
+    return dirty.length === 0 && untracked.length === 0;
+  }
+
+  /**
+   * Switch to `git.branch`, if one was asked for, and commit the written
+   * files onto it. The branch is deleted again when the commit fails.
+   */
+  public commit(
+    files: string[],
+    stats: TransformationStats
+  ): string | undefined {
+    const branch = this.config.git.branch;
+    if (!branch || !this.root || files.length === 0) return undefined;
+
+    const message =
+      this.config.git.commitMessage ||
+      `i18n: extract ${stats.textsTransformed} texts from ${stats.filesProcessed} files\n\nGenerated by react-auto-i18ner.`;
+    Git.createBranch(branch, this.cwd);
+    console.log(`🌿 Switched to a new branch ${branch}`);
+    let hash: string;
+    try {
+      hash = Git.commit(
+        files.map((file) => path.resolve(file)),
+        message,
+        this.cwd
+      );
+    } catch (error) {
+      Git.deleteBranch(branch, this.cwd);
+      throw error;
+    }
+
+    console.log(`🌿 Committed ${files.length} files to ${branch} (${hash})`);
+    return hash;
+  }
+
+  private static contains(dir: string, file: string): boolean {
+    const relative = path.relative(dir, file);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  }
+}
+
+export default GitGuard;
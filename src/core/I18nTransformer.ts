@@ -1,46 +1,118 @@
-import { Project, SourceFile, SyntaxKind, Node } from 'ts-morph';
+import {
+  Project,
+  SourceFile,
+  SyntaxKind,
+  Node,
+  JsxAttribute,
+  JsxElement,
+  JsxFragment,
+  JsxOpeningElement,
+  JsxSelfClosingElement,
+  Expression,
+  PropertyAccessExpression,
+  FunctionDeclaration,
+  FunctionExpression,
+  ArrowFunction,
+  MethodDeclaration,
+  ClassDeclaration,
+  ClassExpression,
+} from 'ts-morph';
 import * as path from 'path';
-import * as fs from 'fs-extra';
 import * as glob from 'glob';
 import {
   I18nConfig,
-  TransformationResult,
-  TransformationStats,
   TextExtraction,
   ComponentInfo,
+  KeyContext,
 } from '../types';
-import { ConfigManager } from './ConfigManager';
-import { TextValidator } from '../utils/TextValidator';
+import {
+  BaseTransformer,
+  InterpolationValue,
+  MessagePart,
+  PluralMessage,
+  RewrittenFile,
+  TRANSLATABLE_ATTRIBUTES,
+} from './BaseTransformer';
+
+/**
+ * Elements that can sit inside a sentence and be rendered through the
+ * `components` prop of `<Trans>`
+ */
+const INLINE_ELEMENTS = new Set([
+  'a',
+  'abbr',
+  'b',
+  'br',
+  'code',
+  'em',
+  'i',
+  'kbd',
+  'mark',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'sup',
+  'u',
+]);
+
+/**
+ * A user-facing string in the JSX. Text runs cover JSX text merged with
+ * simple `{expressions}`, from `node` to `lastNode`, with the expressions
+ * passed to `t()` as interpolation values. Rich text runs also contain
+ * inline elements, which become `<Trans>` components. Module strings carry
+ * the JSX `references` that render their property.
+ */
+interface TranslatableNode {
+  node: Node;
+  text: string;
+  type: TextExtraction['type'];
+  lastNode?: Node;
+  values?: InterpolationValue[];
+  components?: RichTextComponent[];
+  plural?: PluralMessage;
+  references?: PropertyAccessExpression[];
+}
+
+/** A function component, or a method of a class component */
+type ComponentScope =
+  | FunctionDeclaration
+  | FunctionExpression
+  | ArrowFunction
+  | MethodDeclaration;
+
+interface TextEdit {
+  range: [number, number];
+  text: string;
+}
 
-export class I18nTransformer {
-  private config: I18nConfig;
-  private validator: TextValidator;
+interface RichTextComponent {
+  index: number;
+  element: string;
+}
+
+/**
+ * A count-dependent expression such as `{n === 1 ? 'item' : 'items'}` or
+ * `{n + ' files'}`, with the message fragment used for each form
+ */
+interface PluralExpression {
+  count: Expression;
+  one: string;
+  other: string;
+}
+
+export class I18nTransformer extends BaseTransformer {
+  protected readonly type = 'typescript';
+  protected readonly title = 'React Auto i18n';
+  protected readonly fileLabel = 'files';
   private project: Project;
-  private translationKeys: Map<string, string> = new Map();
-  private stats: TransformationStats = {
-    filesProcessed: 0,
-    textsTransformed: 0,
-    importsAdded: 0,
-    hooksAdded: 0,
-    buttonsFixed: 0,
-    attributesTransformed: 0,
-    codeFragmentsFiltered: 0,
-    duplicatesFound: 0,
-    errors: [],
-    warnings: [],
-  };
-  private extractedTexts: TextExtraction[] = [];
-  private componentInfo: ComponentInfo[] = [];
 
   constructor(config?: I18nConfig) {
-    this.config = config || ConfigManager.getInstance().getConfig();
-    this.validator = new TextValidator(this.config);
+    super(config);
     this.project = new Project({
       tsConfigFilePath: this.findTsConfig(),
       skipAddingFilesFromTsConfig: true,
     });
-
-    this.resetStats();
   }
 
   private findTsConfig(): string | undefined {
@@ -61,188 +133,69 @@ export class I18nTransformer {
     return undefined;
   }
 
-  private resetStats(): void {
-    this.stats = {
-      filesProcessed: 0,
-      textsTransformed: 0,
-      importsAdded: 0,
-      hooksAdded: 0,
-      buttonsFixed: 0,
-      attributesTransformed: 0,
-      codeFragmentsFiltered: 0,
-      duplicatesFound: 0,
-      errors: [],
-      warnings: [],
-    };
+  /**
+   * Collect translatable texts from a single file without modifying it. The
+   * file's component info is recorded for getComponentInfo().
+   */
+  public async extractFile(filePath: string): Promise<TextExtraction[]> {
+    const sourceFile = this.getSourceFile(filePath);
+    this.componentInfo.push(this.analyzeComponent(sourceFile));
+    return this.extractTexts(sourceFile);
   }
 
-  public async transform(): Promise<TransformationResult> {
-    try {
-      console.log('🚀 Starting React Auto i18n Transformation...\n');
-
-      // Load existing translations
-      await this.loadExistingTranslations();
-
-      // Create backup if enabled
-      let backupPath: string | undefined;
-      if (this.config.advanced.createBackup) {
-        backupPath = await this.createBackup();
-      }
-
-      // Find and process files
-      const files = await this.findFiles();
-      console.log(`📁 Found ${files.length} files to process\n`);
-
-      // Process each file
-      for (const filePath of files) {
-        await this.transformFile(filePath);
-      }
-
-      // Generate translation files
-      await this.generateTranslationFiles();
-
-      // Generate type definitions if enabled
-      if (this.config.advanced.generateTypeDefinitions) {
-        await this.generateTypeDefinitions();
-      }
+  /** Files stay in the project when watching, so re-read them from disk */
+  private getSourceFile(filePath: string): SourceFile {
+    const sourceFile = this.project.getSourceFile(filePath);
+    if (!sourceFile) return this.project.addSourceFileAtPath(filePath);
 
-      return {
-        success: true,
-        stats: this.stats,
-        translationKeys: this.translationKeys,
-        modifiedFiles: files,
-        backupPath,
-      };
-    } catch (error) {
-      this.stats.errors.push(
-        `Transformation failed: ${error instanceof Error ? error.message : String(error)}`
-      );
-      return {
-        success: false,
-        stats: this.stats,
-        translationKeys: this.translationKeys,
-        modifiedFiles: [],
-      };
-    }
+    sourceFile.refreshFromFileSystemSync();
+    return sourceFile;
   }
 
-  private async loadExistingTranslations(): Promise<void> {
-    const sourceFile = path.join(
-      this.config.outputDir,
-      `${this.config.sourceLanguage}.json`
-    );
-
-    if (await fs.pathExists(sourceFile)) {
-      try {
-        const translations = await fs.readJson(sourceFile);
-        Object.entries(translations).forEach(([key, value]) => {
-          if (
-            typeof value === 'string' &&
-            this.validator.isValidTranslationText(value)
-          ) {
-            this.translationKeys.set(value, key);
-          }
-        });
-        console.log(
-          `📚 Loaded ${this.translationKeys.size} existing translations`
-        );
-      } catch (error) {
-        this.stats.warnings.push(
-          `Could not load existing translations: ${error instanceof Error ? error.message : String(error)}`
-        );
-      }
-    }
+  protected createWorkerTransformer(config: I18nConfig): I18nTransformer {
+    return new I18nTransformer(config);
   }
 
-  private async createBackup(): Promise<string> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = path.join(this.config.backupDir!, `backup-${timestamp}`);
+  protected async rewriteFile(filePath: string): Promise<RewrittenFile> {
+    const sourceFile = this.getSourceFile(filePath);
+    let hasChanges = false;
 
-    await fs.ensureDir(backupPath);
-    await fs.copy(this.config.srcDir, path.join(backupPath, 'src'));
+    // Analyze component info
+    const componentInfo = this.analyzeComponent(sourceFile);
+    this.componentInfo.push(componentInfo);
+    const namespace = this.localeFormat.getNamespace(filePath);
 
-    if (await fs.pathExists(this.config.outputDir)) {
-      await fs.copy(this.config.outputDir, path.join(backupPath, 'locales'));
+    // Extract texts before any edit so positions match the original source
+    const extractionResults = this.extractTexts(sourceFile);
+    if (extractionResults.length > 0) {
+      this.extractedTexts.push(...extractionResults);
+      hasChanges = true;
     }
 
-    console.log(`💾 Created backup at ${backupPath}`);
-    return backupPath;
-  }
-
-  private async findFiles(): Promise<string[]> {
-    const patterns = this.config.include.map((pattern) => {
-      // Use path.posix for glob patterns (always forward slashes)
-      const normalizedSrcDir = this.config.srcDir.replace(/\\/g, '/');
-      const normalizedPattern = pattern.replace(/\\/g, '/');
-      return path.posix.join(normalizedSrcDir, normalizedPattern);
-    });
-
-    let files: string[] = [];
-
-    for (const pattern of patterns) {
-      const matches = glob.sync(pattern, {
-        ignore: this.config.exclude.map((ex) => ex.replace(/\\/g, '/')),
-      });
-      files = files.concat(matches);
+    // Transform JSX elements
+    const transformResults = this.transformJSXElements(sourceFile, namespace);
+    if (transformResults.count > 0) {
+      hasChanges = true;
+      this.stats.textsTransformed += transformResults.count;
     }
 
-    // Remove duplicates and sort
-    return [...new Set(files)].sort();
-  }
-
-  private async transformFile(filePath: string): Promise<void> {
-    try {
-      const sourceFile = this.project.addSourceFileAtPath(filePath);
-      const relativePath = path.relative(process.cwd(), filePath);
-
-      let hasChanges = false;
-
-      // Analyze component info
-      const componentInfo = this.analyzeComponent(sourceFile);
-      this.componentInfo.push(componentInfo);
+    this.stats.hooksAdded += transformResults.hooksAdded;
 
-      // Add imports if needed
-      if (this.shouldAddImport(sourceFile)) {
-        this.addTranslationImport(sourceFile);
-        hasChanges = true;
-        this.stats.importsAdded++;
-      }
-
-      // Extract and transform texts
-      const extractionResults = this.extractTexts(sourceFile);
-      if (extractionResults.length > 0) {
-        this.extractedTexts.push(...extractionResults);
-        hasChanges = true;
-      }
-
-      // Transform JSX elements
-      const transformResults = this.transformJSXElements(sourceFile);
-      if (transformResults.count > 0) {
-        hasChanges = true;
-        this.stats.textsTransformed += transformResults.count;
-      }
-
-      // Add translation hooks if needed
-      if (this.shouldAddHook(sourceFile, componentInfo)) {
-        this.addTranslationHook(sourceFile, componentInfo);
-        hasChanges = true;
-        this.stats.hooksAdded++;
-      }
-
-      // Save changes
-      if (hasChanges) {
-        await sourceFile.save();
-        console.log(
-          `✅ Transformed ${relativePath} (${transformResults.count} texts)`
-        );
-      }
-
-      this.stats.filesProcessed++;
-    } catch (error) {
-      this.stats.errors.push(
-        `Error transforming ${filePath}: ${error instanceof Error ? error.message : String(error)}`
-      );
+    // What the hooks and class wrappers use, `<Trans>` gets its own import
+    const namedImports = [
+      ...transformResults.imports,
+      ...(transformResults.transCount > 0 ? ['Trans'] : []),
+    ];
+    if (this.addTranslationImport(sourceFile, namedImports)) {
+      hasChanges = true;
+      this.stats.importsAdded++;
     }
+
+    return {
+      content: sourceFile.getFullText(),
+      changed: hasChanges,
+      count: transformResults.count,
+    };
   }
 
   private analyzeComponent(sourceFile: SourceFile): ComponentInfo {
@@ -265,8 +218,7 @@ export class I18nTransformer {
     );
 
     // Check if translation is needed (has extractable text)
-    const text = sourceFile.getFullText();
-    needsTranslation = this.hasExtractableText(text);
+    needsTranslation = this.collectTranslatableNodes(sourceFile).length > 0;
 
     // Detect component type and name
     const functions = sourceFile.getFunctions();
@@ -313,48 +265,33 @@ export class I18nTransformer {
     };
   }
 
-  private hasExtractableText(content: string): boolean {
-    // Quick check for potential translatable text
-    const jsxTextPattern = />([^<>{]+)</g;
-    const attributePatterns = [
-      /placeholder=["']([^"']+)["']/g,
-      /title=["']([^"']+)["']/g,
-      /alt=["']([^"']+)["']/g,
-      /aria-label=["']([^"']+)["']/g,
-    ];
-
-    // Check JSX text
-    let match;
-    while ((match = jsxTextPattern.exec(content)) !== null) {
-      if (this.validator.isValidTranslationText(match[1])) {
-        return true;
-      }
-    }
-
-    // Check attributes
-    for (const pattern of attributePatterns) {
-      while ((match = pattern.exec(content)) !== null) {
-        if (this.validator.isValidTranslationText(match[1])) {
-          return true;
-        }
-      }
-    }
-
-    return false;
-  }
-
-  private shouldAddImport(sourceFile: SourceFile): boolean {
-    const imports = sourceFile.getImportDeclarations();
-    return !imports.some(
+  /**
+   * Import `namedImports` from react-i18next, extending an existing import
+   * of the module. Returns whether anything was added.
+   */
+  private addTranslationImport(
+    sourceFile: SourceFile,
+    namedImports: string[]
+  ): boolean {
+    const existingImports = sourceFile.getImportDeclarations();
+    const moduleImport = existingImports.find(
       (imp) =>
         imp.getModuleSpecifierValue() === 'react-i18next' ||
         imp.getModuleSpecifierValue() ===
           this.config.components.customHookImport
     );
-  }
 
-  private addTranslationImport(sourceFile: SourceFile): void {
-    const existingImports = sourceFile.getImportDeclarations();
+    if (moduleImport) {
+      const imported = moduleImport
+        .getNamedImports()
+        .map((namedImport) => namedImport.getName());
+      const missing = namedImports.filter((name) => !imported.includes(name));
+      if (missing.length > 0) moduleImport.addNamedImports(missing);
+      return missing.length > 0;
+    }
+
+    if (namedImports.length === 0) return false;
+
     let insertIndex = 0;
 
     // Find the best position for the import
@@ -370,326 +307,1105 @@ export class I18nTransformer {
     }
 
     sourceFile.insertImportDeclaration(insertIndex, {
-      namedImports: ['useTranslation'],
+      namedImports,
       moduleSpecifier:
         this.config.components.customHookImport || 'react-i18next',
     });
+    return true;
   }
 
-  private shouldAddHook(
-    sourceFile: SourceFile,
-    componentInfo: ComponentInfo
-  ): boolean {
-    if (!this.config.components.addUseTranslationHook) return false;
-    if (componentInfo.hasUseTranslation) return false;
-    if (!componentInfo.needsTranslation) return false;
-    if (
-      componentInfo.type === 'class' &&
-      !this.config.components.supportClassComponents
-    )
-      return false;
+  /**
+   * Walk the JSX of a source file and collect the text and attribute nodes
+   * that carry user-facing strings. Non-JSX code is never visited, so
+   * generics and comparisons can't be mistaken for JSX text; the only
+   * exception is arguments of allow-listed calls such as `toast()`.
+   */
+  private collectTranslatableNodes(sourceFile: SourceFile): TranslatableNode[] {
+    const nodes: TranslatableNode[] = [];
 
-    return true;
-  }
+    if (this.config.transformation.extractJSXText) {
+      const parents = [
+        ...sourceFile.getDescendantsOfKind(SyntaxKind.JsxElement),
+        ...sourceFile.getDescendantsOfKind(SyntaxKind.JsxFragment),
+      ].sort((a, b) => a.getStart() - b.getStart());
+      for (const parent of parents) {
+        if (this.isInsideRichText(parent, nodes)) continue;
+        nodes.push(...this.collectJsxChildren(parent));
+      }
+    }
 
-  private addTranslationHook(
-    sourceFile: SourceFile,
-    componentInfo: ComponentInfo
-  ): void {
-    if (componentInfo.type === 'class') {
-      // Handle class components with HOC
-      this.addClassComponentSupport(sourceFile);
-    } else {
-      // Handle function components
-      this.addFunctionComponentHook(sourceFile);
+    if (this.config.transformation.extractAttributes) {
+      for (const attribute of sourceFile.getDescendantsOfKind(
+        SyntaxKind.JsxAttribute
+      )) {
+        const type = TRANSLATABLE_ATTRIBUTES[attribute.getNameNode().getText()];
+        if (!type) continue;
+        if (this.isInsideRichText(attribute, nodes)) continue;
+
+        const text = this.getAttributeStringValue(attribute);
+        if (text === undefined) continue;
+        if (!this.validator.isValidTranslationText(text)) continue;
+
+        nodes.push({ node: attribute, text: text.trim(), type });
+      }
     }
-  }
 
-  private addFunctionComponentHook(sourceFile: SourceFile): void {
-    const functions = sourceFile.getFunctions();
-    const variableStatements = sourceFile.getVariableStatements();
+    if (this.config.transformation.extractModuleStrings) {
+      nodes.push(...this.collectModuleStrings(sourceFile, nodes));
+    }
 
-    // Try to add to function components
-    for (const func of functions) {
-      if (func.isExported()) {
-        const body = func.getBody();
-        if (body && body.getKind() === SyntaxKind.Block) {
-          const blockBody = body.asKindOrThrow(SyntaxKind.Block);
-          blockBody.insertStatements(0, 'const { t } = useTranslation();');
-          return;
+    if (this.config.transformation.extractStringLiterals) {
+      const calls = [
+        ...sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression),
+        ...sourceFile.getDescendantsOfKind(SyntaxKind.NewExpression),
+      ];
+      for (const call of calls) {
+        if (!this.isAllowedCallee(call.getExpression().getText())) continue;
+        if (!this.isInsideComponent(call)) continue;
+        if (this.isInsideRichText(call, nodes)) continue;
+
+        for (const argument of call.getArguments()) {
+          nodes.push(...this.collectStringLiterals(argument));
         }
       }
     }
 
-    // Try to add to arrow function components
-    for (const stmt of variableStatements) {
-      const declarations = stmt.getDeclarations();
-      for (const decl of declarations) {
-        const initializer = decl.getInitializer();
-        if (initializer && initializer.getKind() === SyntaxKind.ArrowFunction) {
-          const arrowFunc = initializer.asKindOrThrow(SyntaxKind.ArrowFunction);
-          const body = arrowFunc.getBody();
+    return nodes.sort((a, b) => a.node.getStart() - b.node.getStart());
+  }
 
-          if (body.getKind() === SyntaxKind.Block) {
-            const blockBody = body.asKindOrThrow(SyntaxKind.Block);
-            blockBody.insertStatements(0, 'const { t } = useTranslation();');
-            return;
+  /**
+   * Strings in module-level constants such as
+   * `const NAV = [{ label: 'Dashboard', href: '/' }]`, where no `t` is
+   * available. A property qualifies when every read of it renders it in
+   * JSX, either as `NAV.label` or as `item.label` in `NAV.map((item) => ...)`,
+   * so it can become `labelKey` and be rendered with `t(item.labelKey)`.
+   */
+  private collectModuleStrings(
+    sourceFile: SourceFile,
+    nodes: TranslatableNode[]
+  ): TranslatableNode[] {
+    const moduleStrings: TranslatableNode[] = [];
+
+    for (const statement of sourceFile.getVariableStatements()) {
+      // Other modules may read the texts
+      if (statement.hasExportKeyword()) continue;
+
+      for (const declaration of statement.getDeclarations()) {
+        const nameNode = declaration.getNameNode();
+        let initializer = declaration.getInitializer();
+        if (Node.isAsExpression(initializer)) {
+          initializer = initializer.getExpression();
+        }
+        if (!Node.isIdentifier(nameNode)) continue;
+
+        const isArray = Node.isArrayLiteralExpression(initializer);
+        const objects = Node.isArrayLiteralExpression(initializer)
+          ? initializer.getElements()
+          : initializer
+            ? [initializer]
+            : [];
+        if (
+          objects.length === 0 ||
+          !objects.every((object) => Node.isObjectLiteralExpression(object))
+        ) {
+          continue;
+        }
+
+        const reads = this.findPropertyReads(sourceFile, nameNode, isArray);
+        if (!reads) continue;
+
+        // Group the string properties by name across the array items
+        const properties = new Map<string, Node[]>();
+        for (const object of objects) {
+          for (const property of object
+            .asKindOrThrow(SyntaxKind.ObjectLiteralExpression)
+            .getProperties()) {
+            if (!Node.isPropertyAssignment(property)) continue;
+            const name = property.getNameNode();
+            if (!Node.isIdentifier(name)) continue;
+
+            const values = properties.get(name.getText()) || [];
+            values.push(property.getInitializerOrThrow());
+            properties.set(name.getText(), values);
+          }
+        }
+
+        for (const [name, values] of properties) {
+          const references = reads.filter((read) => read.getName() === name);
+          const texts = values.map((value) => this.getStringValue(value));
+
+          if (
+            references.length === 0 ||
+            properties.has(`${name}Key`) ||
+            !references.every(
+              (read) =>
+                Node.isJsxExpression(read.getParent()) &&
+                !this.isInsideTranslatable(read, nodes)
+            ) ||
+            !texts.every(
+              (text) =>
+                text !== undefined &&
+                this.validator.isValidTranslationText(text)
+            )
+          ) {
+            continue;
           }
+
+          values.forEach((value, index) => {
+            moduleStrings.push({
+              node: value,
+              text: texts[index]!.trim(),
+              type: 'module-string',
+              // The render sites are shared by every item of the array
+              references: index === 0 ? references : undefined,
+            });
+          });
         }
       }
     }
+
+    return moduleStrings;
   }
 
-  private addClassComponentSupport(sourceFile: SourceFile): void {
-    // Add withTranslation HOC support for class components
-    const classes = sourceFile.getClasses();
+  /**
+   * Every `CONST.prop` (or `item.prop` inside `CONST.map((item) => ...)`)
+   * in the file, or undefined when the constant is used any other way, e.g.
+   * passed as a prop, so a renamed property could break its consumer
+   */
+  private findPropertyReads(
+    sourceFile: SourceFile,
+    nameNode: Node,
+    isArray: boolean
+  ): PropertyAccessExpression[] | undefined {
+    const reads: PropertyAccessExpression[] = [];
+    const isReference = (identifier: Node, name: string) => {
+      const parent = identifier.getParent();
+      return (
+        identifier.getText() === name &&
+        !(
+          (Node.isPropertyAccessExpression(parent) ||
+            Node.isPropertyAssignment(parent)) &&
+          parent.getNameNode() === identifier
+        )
+      );
+    };
 
-    for (const cls of classes) {
-      if (cls.isExported()) {
-        // Add WithTranslation interface to props
-        const constructors = cls.getConstructors();
-        if (constructors.length > 0) {
-          // Add interface to props type
-          // This is a simplified implementation
-          console.log(`🔄 Adding class component support for ${cls.getName()}`);
-        }
+    for (const identifier of sourceFile.getDescendantsOfKind(
+      SyntaxKind.Identifier
+    )) {
+      if (identifier === nameNode) continue;
+      if (!isReference(identifier, nameNode.getText())) continue;
+
+      const access = identifier.getParent();
+      if (!Node.isPropertyAccessExpression(access)) return undefined;
+
+      if (!isArray) {
+        reads.push(access);
+        continue;
+      }
+
+      const call = access.getParent();
+      const callback = Node.isCallExpression(call)
+        ? call.getArguments()[0]
+        : undefined;
+      if (
+        access.getName() !== 'map' ||
+        !(Node.isArrowFunction(callback) || Node.isFunctionExpression(callback))
+      ) {
+        return undefined;
+      }
+
+      const item = callback.getParameters()[0]?.getNameNode();
+      if (!Node.isIdentifier(item)) return undefined;
+
+      for (const use of callback.getDescendantsOfKind(SyntaxKind.Identifier)) {
+        if (use === item || !isReference(use, item.getText())) continue;
+
+        const read = use.getParent();
+        if (!Node.isPropertyAccessExpression(read)) return undefined;
+        reads.push(read);
       }
     }
+
+    return reads;
   }
 
-  private extractTexts(sourceFile: SourceFile): TextExtraction[] {
-    const extractions: TextExtraction[] = [];
-    const content = sourceFile.getFullText();
-    const filePath = sourceFile.getFilePath();
+  private isInsideTranslatable(node: Node, nodes: TranslatableNode[]): boolean {
+    return nodes.some((translatable) => {
+      const [start, end] = this.getTextRange(translatable);
+      return node.getStart() >= start && node.getEnd() <= end;
+    });
+  }
 
-    // Extract JSX text content
-    if (this.config.transformation.extractJSXText) {
-      extractions.push(...this.extractJSXText(content, filePath));
+  /** `toast` in the allow-list also covers `toast.error()` and friends */
+  private isAllowedCallee(callee: string): boolean {
+    return this.config.transformation.stringLiteralCallees.some(
+      (name) => callee === name || callee.startsWith(`${name}.`)
+    );
+  }
+
+  /**
+   * Strings outside JSX can only use `t` when the code runs inside a
+   * function component, including handlers and effects defined in it
+   */
+  private isInsideComponent(node: Node): boolean {
+    const functions = node
+      .getAncestors()
+      .filter(
+        (ancestor) =>
+          Node.isFunctionDeclaration(ancestor) ||
+          Node.isArrowFunction(ancestor) ||
+          Node.isFunctionExpression(ancestor)
+      );
+    const outermost = functions[functions.length - 1];
+    if (!outermost) return false;
+
+    // Look through memo(), forwardRef() and similar wrappers
+    let declaration: Node = outermost;
+    while (Node.isCallExpression(declaration.getParent())) {
+      declaration = declaration.getParentOrThrow();
     }
+    const parent = declaration.getParent();
+    const name = Node.isFunctionDeclaration(outermost)
+      ? outermost.getName()
+      : Node.isVariableDeclaration(parent)
+        ? parent.getName()
+        : undefined;
+
+    return !!name && /^[A-Z]/.test(name);
+  }
 
-    // Extract attributes
-    if (this.config.transformation.extractAttributes) {
-      extractions.push(...this.extractAttributes(content, filePath));
+  /** String arguments, and string properties of object arguments */
+  private collectStringLiterals(node: Node): TranslatableNode[] {
+    if (Node.isObjectLiteralExpression(node)) {
+      return node
+        .getProperties()
+        .filter(Node.isPropertyAssignment)
+        .flatMap((property) =>
+          this.collectStringLiterals(property.getInitializerOrThrow())
+        );
     }
 
-    return extractions;
+    const text = this.getStringValue(node);
+    if (text === undefined || !this.validator.isValidTranslationText(text)) {
+      return [];
+    }
+
+    return [{ node, text: text.trim(), type: 'string-literal' }];
   }
 
-  private extractJSXText(content: string, filePath: string): TextExtraction[] {
-    const extractions: TextExtraction[] = [];
-    const jsxTextPattern = />([^<>{]+)</g;
+  /**
+   * Elements inside a `<Trans>` message are copied into its `components`
+   * prop as they are, so nothing in them is translated separately
+   */
+  private isInsideRichText(node: Node, nodes: TranslatableNode[]): boolean {
+    return nodes.some(
+      (translatable) =>
+        translatable.type === 'rich-text' &&
+        node.getStart() >= translatable.node.getStart() &&
+        node.getEnd() <= translatable.lastNode!.getEnd()
+    );
+  }
+
+  /**
+   * Split the children of an element into runs of text and simple
+   * expressions, so `Hello {user.name}, welcome` becomes one message
+   */
+  private collectJsxChildren(
+    parent: JsxElement | JsxFragment
+  ): TranslatableNode[] {
+    const nodes: TranslatableNode[] = [];
+    const type = this.isButtonElement(parent) ? 'button' : 'jsx-text';
+    let run: Node[] = [];
+
+    const flush = () => {
+      const richText = this.createRichTextRun(run);
+      if (richText) {
+        nodes.push(richText);
+      } else {
+        // Without text around them, inline elements are translated on their
+        // own, so split the run at each of them
+        let segment: Node[] = [];
+        for (const child of [...run, undefined]) {
+          if (child && !this.isInlineElement(child)) {
+            segment.push(child);
+            continue;
+          }
+          const node = this.createTextRun(segment, type);
+          if (node) nodes.push(node);
+          segment = [];
+        }
+      }
+      run = [];
+    };
 
-    let match;
-    while ((match = jsxTextPattern.exec(content)) !== null) {
-      const text = match[1].trim();
+    for (const child of parent.getJsxChildren()) {
+      if (
+        this.getLiteralText(child) !== undefined ||
+        (Node.isJsxExpression(child) &&
+          this.isInterpolatable(child.getExpression())) ||
+        this.getPluralExpression(child) !== undefined ||
+        this.isInlineElement(child)
+      ) {
+        run.push(child);
+      } else {
+        flush();
+      }
+    }
+    flush();
 
-      if (this.validator.isValidTranslationText(text)) {
-        const key = this.getOrCreateKey(text);
+    return nodes;
+  }
 
-        extractions.push({
-          text,
-          key,
-          type: 'jsx-text',
-          filePath,
-          line: this.getLineNumber(content, match.index),
-          column: this.getColumnNumber(content, match.index),
+  private createTextRun(
+    run: Node[],
+    type: TextExtraction['type']
+  ): TranslatableNode | undefined {
+    const children = this.trimRun(run);
+    const parts: MessagePart[] = [];
+    for (const child of children) {
+      const literal = this.getLiteralText(child);
+      const plural = this.getPluralExpression(child);
+
+      if (literal !== undefined) {
+        parts.push({ kind: 'text', text: literal });
+      } else if (plural) {
+        const { count, one, other } = plural;
+        parts.push({ kind: 'plural', count: count.getText(), one, other });
+      } else if (Node.isJsxExpression(child)) {
+        const expression = child.getExpression()!;
+        parts.push({
+          kind: 'value',
+          expression: expression.getText(),
+          name: this.getPlaceholderBase(expression),
         });
       }
     }
 
-    return extractions;
+    const message = this.composeMessage(parts);
+    if (!message) return undefined;
+
+    return {
+      node: children[0],
+      lastNode: children[children.length - 1],
+      type,
+      ...message,
+    };
   }
 
-  private extractAttributes(
-    content: string,
-    filePath: string
-  ): TextExtraction[] {
-    const extractions: TextExtraction[] = [];
-    const attributePatterns = [
-      {
-        pattern: /placeholder=["']([^"']+)["']/g,
-        type: 'placeholder' as const,
-      },
-      { pattern: /title=["']([^"']+)["']/g, type: 'title' as const },
-      { pattern: /alt=["']([^"']+)["']/g, type: 'attribute' as const },
-      { pattern: /aria-label=["']([^"']+)["']/g, type: 'aria-label' as const },
-    ];
+  /**
+   * Recognize `{n === 1 ? 'item' : 'items'}` (also `!==` and `1 === n`)
+   * and `{n + ' files'}`, where `n` is a plain reference
+   */
+  private getPluralExpression(node: Node): PluralExpression | undefined {
+    if (!Node.isJsxExpression(node)) return undefined;
+    const expression = node.getExpression();
+
+    if (Node.isConditionalExpression(expression)) {
+      const condition = expression.getCondition();
+      const whenTrue = this.getStringValue(expression.getWhenTrue());
+      const whenFalse = this.getStringValue(expression.getWhenFalse());
+      if (
+        !Node.isBinaryExpression(condition) ||
+        whenTrue === undefined ||
+        whenFalse === undefined
+      ) {
+        return undefined;
+      }
 
-    for (const { pattern, type } of attributePatterns) {
-      let match;
-      while ((match = pattern.exec(content)) !== null) {
-        const text = match[1].trim();
-
-        if (this.validator.isValidTranslationText(text)) {
-          const key = this.getOrCreateKey(text);
-
-          extractions.push({
-            text,
-            key,
-            type,
-            filePath,
-            line: this.getLineNumber(content, match.index),
-            column: this.getColumnNumber(content, match.index),
-          });
-        }
+      const isOne = (side: Node) =>
+        Node.isNumericLiteral(side) && side.getLiteralValue() === 1;
+      const left = condition.getLeft();
+      const right = condition.getRight();
+      const count = isOne(right) ? left : isOne(left) ? right : undefined;
+      if (!count || !this.isInterpolatable(count)) return undefined;
+
+      const forms = this.getPluralForms(
+        condition.getOperatorToken().getText(),
+        whenTrue,
+        whenFalse
+      );
+      return forms && { count, ...forms };
+    }
+
+    if (
+      Node.isBinaryExpression(expression) &&
+      expression.getOperatorToken().getKind() === SyntaxKind.PlusToken
+    ) {
+      const count = expression.getLeft();
+      const noun = this.getStringValue(expression.getRight());
+      if (!this.isInterpolatable(count) || noun === undefined) {
+        return undefined;
       }
+
+      const forms = this.getNounPluralForms(noun);
+      return forms && { count, ...forms };
     }
 
-    return extractions;
+    return undefined;
   }
 
-  private transformJSXElements(sourceFile: SourceFile): { count: number } {
-    let count = 0;
-    let content = sourceFile.getFullText();
+  private getStringValue(node: Node): string | undefined {
+    if (Node.isParenthesizedExpression(node)) {
+      return this.getStringValue(node.getExpression());
+    }
+
+    if (
+      Node.isStringLiteral(node) ||
+      Node.isNoSubstitutionTemplateLiteral(node)
+    ) {
+      return node.getLiteralText();
+    }
 
-    // Transform JSX text content
-    const jsxTextPattern = />([^<>{]+)</g;
-    content = content.replace(jsxTextPattern, (match, text) => {
-      const cleanText = text.trim();
+    return undefined;
+  }
 
-      if (match.includes("{t('") || match.includes('t("')) {
-        return match; // Already transformed
-      }
+  /**
+   * Turn a run mixing text and inline elements into a `<Trans>` message
+   * such as `Read our <1>Terms</1>`, numbering elements by their position
+   * in the run
+   */
+  private createRichTextRun(run: Node[]): TranslatableNode | undefined {
+    const children = this.trimRun(run);
+    if (
+      !children.some((child) => this.isInlineElement(child)) ||
+      !children.some((child) => this.isNonBlankText(child)) ||
+      children.some((child) => this.getPluralExpression(child))
+    ) {
+      return undefined;
+    }
 
-      if (this.validator.isValidTranslationText(cleanText)) {
-        const key = this.getOrCreateKey(cleanText);
-        count++;
-        return `>{t('${key.replace(/'/g, "\\'")}')}<`;
+    let message = '';
+    let staticText = '';
+    const values: InterpolationValue[] = [];
+    const components: RichTextComponent[] = [];
+
+    children.forEach((child, index) => {
+      const literal = this.getLiteralText(child);
+      if (literal !== undefined) {
+        message += literal;
+        staticText += literal;
+      } else if (Node.isJsxExpression(child)) {
+        const expression = child.getExpression()!;
+        const name = this.addPlaceholder(
+          values,
+          expression.getText(),
+          this.getPlaceholderBase(expression)
+        );
+        message += `{{${name}}}`;
+        staticText += ' ';
+      } else if (Node.isJsxSelfClosingElement(child)) {
+        message += `<${index}/>`;
+        components.push({ index, element: this.createComponentElement(child) });
+      } else if (Node.isJsxElement(child)) {
+        const inner = child
+          .getJsxChildren()
+          .map((text) => (Node.isJsxText(text) ? text.compilerNode.text : ''))
+          .join('');
+        message += `<${index}>${inner}</${index}>`;
+        staticText += ` ${inner} `;
+        components.push({
+          index,
+          element: this.createComponentElement(child.getOpeningElement()),
+        });
       }
-      return match;
     });
 
-    // Transform attributes
-    const attributePatterns = [
-      /placeholder=["']([^"']+)["']/g,
-      /title=["']([^"']+)["']/g,
-      /alt=["']([^"']+)["']/g,
-      /aria-label=["']([^"']+)["']/g,
-    ];
+    if (
+      !this.validator.isValidTranslationText(
+        staticText.trim().replace(/\s+/g, ' ')
+      )
+    ) {
+      return undefined;
+    }
 
-    for (const pattern of attributePatterns) {
-      content = content.replace(pattern, (match, text) => {
-        if (match.includes("{t('") || match.includes('t("')) {
-          return match; // Already transformed
-        }
+    return {
+      node: children[0],
+      lastNode: children[children.length - 1],
+      text: message.trim().replace(/\s+/g, ' '),
+      type: 'rich-text',
+      values: values.length > 0 ? values : undefined,
+      components,
+    };
+  }
 
-        if (this.validator.isValidTranslationText(text)) {
-          const key = this.getOrCreateKey(text);
-          count++;
-          const attr = match.split('=')[0];
-          return `${attr}={t('${key.replace(/'/g, "\\'")}')}`;
-        }
-        return match;
-      });
+  /**
+   * Inline elements holding plain text only, e.g. `<a href="/tos">Terms</a>`
+   * or `<br />`. Only considered when rich text extraction is enabled.
+   */
+  private isInlineElement(node: Node): boolean {
+    if (!this.config.transformation.extractRichText) return false;
+
+    if (Node.isJsxSelfClosingElement(node)) {
+      return INLINE_ELEMENTS.has(node.getTagNameNode().getText());
     }
 
-    // Save the transformed content
-    if (count > 0) {
-      sourceFile.replaceWithText(content);
+    if (Node.isJsxElement(node)) {
+      const tagName = node.getOpeningElement().getTagNameNode().getText();
+      return (
+        INLINE_ELEMENTS.has(tagName) &&
+        node.getJsxChildren().every((child) => Node.isJsxText(child))
+      );
     }
 
-    return { count };
+    return false;
   }
 
-  private getOrCreateKey(text: string): string {
-    const cleanText = text.trim();
+  /**
+   * The text a child renders as-is: JSX text, or a string literal such as
+   * the `{' '}` formatters put between text and elements
+   */
+  private getLiteralText(node: Node): string | undefined {
+    // getText() drops leading whitespace of JSX text, the raw text keeps it
+    if (Node.isJsxText(node)) return node.compilerNode.text;
 
-    if (this.translationKeys.has(cleanText)) {
-      return this.translationKeys.get(cleanText)!;
+    if (Node.isJsxExpression(node)) {
+      const expression = node.getExpression();
+      if (
+        Node.isStringLiteral(expression) ||
+        Node.isNoSubstitutionTemplateLiteral(expression)
+      ) {
+        return expression.getLiteralText();
+      }
     }
 
-    const key = this.validator.suggestKeyName(
-      cleanText,
-      this.config.format.keyStrategy
-    );
-    this.translationKeys.set(cleanText, key);
-    return key;
+    return undefined;
   }
 
-  private getLineNumber(content: string, index: number): number {
-    return content.substring(0, index).split('\n').length;
+  private isNonBlankText(node: Node): boolean {
+    return !!this.getLiteralText(node)?.trim();
   }
 
-  private getColumnNumber(content: string, index: number): number {
-    const beforeIndex = content.substring(0, index);
-    const lastNewlineIndex = beforeIndex.lastIndexOf('\n');
-    return index - lastNewlineIndex;
+  /** Whitespace at either end of a run belongs to the surrounding layout */
+  private trimRun(run: Node[]): Node[] {
+    const isBlank = (node: Node) => this.getLiteralText(node)?.trim() === '';
+
+    const children = [...run];
+    while (children.length > 0 && isBlank(children[0])) children.shift();
+    while (children.length > 0 && isBlank(children[children.length - 1])) {
+      children.pop();
+    }
+    return children;
   }
 
-  private async generateTranslationFiles(): Promise<void> {
-    await fs.ensureDir(this.config.outputDir);
+  /** `<a href="/tos">` becomes `<a href="/tos" />` for the components prop */
+  private createComponentElement(
+    element: JsxSelfClosingElement | JsxOpeningElement
+  ): string {
+    const attributes = element
+      .getAttributes()
+      .map((attribute) => ` ${attribute.getText()}`)
+      .join('');
+    return `<${element.getTagNameNode().getText()}${attributes} />`;
+  }
 
-    // Create the source language file
-    const sourceTranslations: Record<string, string> = {};
-    this.translationKeys.forEach((key, text) => {
-      sourceTranslations[key] = text;
-    });
+  /**
+   * Only plain references such as `count` or `user.name` are inlined into a
+   * message; anything with calls or operators stays outside of it
+   */
+  private isInterpolatable(expression: Expression | undefined): boolean {
+    if (Node.isIdentifier(expression)) return true;
+
+    if (Node.isPropertyAccessExpression(expression)) {
+      const target = expression.getExpression();
+      return Node.isThisExpression(target) || this.isInterpolatable(target);
+    }
 
-    // Sort keys if configured
-    const sortedTranslations = this.config.format.sortKeys
-      ? this.sortObjectKeys(sourceTranslations)
-      : sourceTranslations;
+    return false;
+  }
+
+  /** `user.name` is interpolated as `name`, a plain reference as itself */
+  private getPlaceholderBase(expression: Expression): string {
+    return Node.isPropertyAccessExpression(expression)
+      ? expression.getName()
+      : expression.getText();
+  }
+
+  private isButtonElement(parent: JsxElement | JsxFragment): boolean {
+    if (!this.config.transformation.extractButtonText) return false;
+    if (!Node.isJsxElement(parent)) return false;
+
+    const tagName = parent.getOpeningElement().getTagNameNode().getText();
+    return /^button$/i.test(tagName);
+  }
 
-    // Write source language file
-    const sourceFile = path.join(
-      this.config.outputDir,
-      `${this.config.sourceLanguage}.json`
+  /**
+   * The source range a translatable node covers, without the whitespace
+   * around JSX text
+   */
+  private getTextRange({ node, lastNode }: TranslatableNode): [number, number] {
+    const last = lastNode || node;
+    let start = node.getStart();
+    let end = last.getEnd();
+
+    if (Node.isJsxText(node)) {
+      const text = node.compilerNode.text;
+      start = node.getPos() + text.length - text.trimStart().length;
+    }
+    if (Node.isJsxText(last)) {
+      const text = last.compilerNode.text;
+      end -= text.length - text.trimEnd().length;
+    }
+
+    return [start, end];
+  }
+
+  /**
+   * Return the literal value of `attr="..."` or `attr={'...'}`, or undefined
+   * when the attribute holds anything other than a plain string
+   */
+  private getAttributeStringValue(attribute: JsxAttribute): string | undefined {
+    let initializer: Node | undefined = attribute.getInitializer();
+
+    if (Node.isJsxExpression(initializer)) {
+      initializer = initializer.getExpression();
+    }
+
+    if (
+      Node.isStringLiteral(initializer) ||
+      Node.isNoSubstitutionTemplateLiteral(initializer)
+    ) {
+      return initializer.getLiteralText();
+    }
+
+    return undefined;
+  }
+
+  private extractTexts(sourceFile: SourceFile): TextExtraction[] {
+    const filePath = sourceFile.getFilePath();
+
+    // Texts the transform would skip get no key
+    const translatables = this.collectTranslatableNodes(sourceFile).filter(
+      (translatable) =>
+        this.getComponentScopes(translatable)?.every((scope) =>
+          this.canBindT(scope)
+        )
     );
-    await fs.writeJson(sourceFile, sortedTranslations, {
-      spaces: this.config.format.indent,
+
+    return translatables.map((translatable) => {
+      const { text, type } = translatable;
+      const [start] = this.getTextRange(translatable);
+      const { line, column } = sourceFile.getLineAndColumnAtPos(start);
+
+      return {
+        text,
+        key: this.getOrCreateKey(
+          text,
+          this.getKeyContext(
+            translatable,
+            path.relative(this.config.srcDir, filePath)
+          )
+        ),
+        type,
+        filePath,
+        line,
+        column,
+      };
     });
-    console.log(
-      `📝 Generated ${sourceFile} with ${Object.keys(sortedTranslations).length} keys`
+  }
+
+  private transformJSXElements(
+    sourceFile: SourceFile,
+    namespace?: string
+  ): {
+    count: number;
+    transCount: number;
+    hooksAdded: number;
+    imports: string[];
+  } {
+    const filePath = path.relative(
+      this.config.srcDir,
+      sourceFile.getFilePath()
     );
+    const translatables = this.collectTranslatableNodes(sourceFile);
+    const edits: TextEdit[] = [];
+    const scopes = new Set<ComponentScope>();
+    let count = 0;
+    let transCount = 0;
 
-    // Create target language files
-    for (const lang of this.config.targetLanguages) {
-      const targetFile = path.join(this.config.outputDir, `${lang}.json`);
+    // Work out every edit before applying any, since replacing text forgets
+    // the nodes it was computed from
+    for (const translatable of translatables) {
+      const { node, text, type, values, components, plural, references } =
+        translatable;
 
-      let targetTranslations: Record<string, string> = {};
+      const nodeScopes = this.getComponentScopes(translatable);
+      if (!nodeScopes) {
+        this.stats.warnings.push(
+          `Skipped "${text}" in ${filePath}: not inside a component`
+        );
+        continue;
+      }
+      // Only class component methods can be left without a way to bind `t`
+      const unbound = nodeScopes.find(
+        (scope): scope is MethodDeclaration => !this.canBindT(scope)
+      );
+      if (unbound) {
+        this.stats.warnings.push(
+          `Skipped "${text}" in ${filePath}: ${this.getClass(unbound).getName() || 'the class'} can't be wrapped with withTranslation(); pass \`t\` to it manually`
+        );
+        continue;
+      }
+      nodeScopes.forEach((scope) => scopes.add(scope));
+      count++;
 
-      // Load existing translations if file exists
-      if (await fs.pathExists(targetFile)) {
-        try {
-          targetTranslations = await fs.readJson(targetFile);
-        } catch (error) {
-          this.stats.warnings.push(
-            `Could not load existing ${lang} translations`
-          );
+      const key = this.getOrCreateKey(
+        text,
+        this.getKeyContext(translatable, filePath)
+      );
+      this.addToNamespace(key, namespace);
+      if (plural) this.pluralMessages.set(key, plural);
+
+      if (components) {
+        transCount++;
+        edits.push({
+          range: this.getTextRange(translatable),
+          text: this.createTransElement(key, components, values, namespace),
+        });
+        continue;
+      }
+
+      const call = this.createTranslationCall(key, values);
+
+      if (type === 'module-string') {
+        // `label: 'Dashboard'` becomes `labelKey: 'Dashboard'`, rendered
+        // through `t(item.labelKey)`
+        const property = node.getParentOrThrow();
+        const name = `${property.asKindOrThrow(SyntaxKind.PropertyAssignment).getName()}Key`;
+        edits.push({
+          range: [property.getStart(), property.getEnd()],
+          text: `${name}: ${this.quoteKey(key)}`,
+        });
+        for (const read of references || []) {
+          edits.push({
+            range: [read.getStart(), read.getEnd()],
+            text: `t(${read.getExpression().getText()}.${name})`,
+          });
         }
+      } else if (type === 'string-literal') {
+        edits.push({ range: [node.getStart(), node.getEnd()], text: call });
+      } else if (Node.isJsxAttribute(node)) {
+        const initializer = node.getInitializerOrThrow();
+        this.stats.attributesTransformed++;
+        edits.push({
+          range: [initializer.getStart(), initializer.getEnd()],
+          text: `{${call}}`,
+        });
+      } else {
+        if (type === 'button') this.stats.buttonsFixed++;
+        edits.push({
+          range: this.getTextRange(translatable),
+          text: `{${call}}`,
+        });
       }
+    }
+
+    const hooks = this.createHookEdits(sourceFile, [...scopes], namespace);
+    edits.push(...hooks.edits);
+
+    // Apply from the end of the file so earlier ranges stay valid; at the
+    // same position replacements go first so insertions land before them
+    edits.sort(
+      (a, b) =>
+        b.range[0] - a.range[0] ||
+        b.range[1] - b.range[0] - (a.range[1] - a.range[0])
+    );
+    for (const edit of edits) {
+      sourceFile.replaceText(edit.range, edit.text);
+    }
+
+    return {
+      count,
+      transCount,
+      hooksAdded: hooks.hooks,
+      imports: hooks.imports,
+    };
+  }
+
+  /**
+   * The components whose `t` a text is rendered with, or undefined when it
+   * isn't rendered inside one. `<Trans>` needs no `t`.
+   */
+  private getComponentScopes({
+    node,
+    type,
+    components,
+    references,
+  }: TranslatableNode): ComponentScope[] | undefined {
+    if (components) return [];
+
+    const nodes = type === 'module-string' ? references || [] : [node];
+    const scopes = nodes.map((n) => this.findComponentScope(n));
+    return scopes.every(Boolean) ? (scopes as ComponentScope[]) : undefined;
+  }
+
+  /**
+   * What a text's key is derived from: its path under `srcDir` and the
+   * component it renders in, which module strings take from their first read
+   */
+  private getKeyContext(
+    { node, type, references }: TranslatableNode,
+    filePath: string
+  ): KeyContext {
+    const scope = this.findComponentScope(references?.[0] ?? node);
+    return {
+      filePath,
+      component: scope && this.getComponentName(scope),
+      type,
+    };
+  }
+
+  /** Undefined for anonymous default exports, keyed by their file name */
+  private getComponentName(scope: ComponentScope): string | undefined {
+    if (Node.isMethodDeclaration(scope)) return this.getClass(scope).getName();
+    if (!Node.isArrowFunction(scope) && scope.getName()) return scope.getName();
+
+    // Look through memo() and forwardRef() wrappers
+    let parent: Node | undefined = scope.getParent();
+    while (Node.isCallExpression(parent)) parent = parent.getParent();
+    return Node.isVariableDeclaration(parent) ? parent.getName() : undefined;
+  }
+
+  /**
+   * The function component, or class component method, a node renders in:
+   * where `t` has to come from. Lowercase helpers are looked through so
+   * their text uses the component's `t`.
+   */
+  private findComponentScope(node: Node): ComponentScope | undefined {
+    for (const ancestor of node.getAncestors()) {
+      if (Node.isMethodDeclaration(ancestor)) {
+        const parent = ancestor.getParent();
+        return (Node.isClassDeclaration(parent) ||
+          Node.isClassExpression(parent)) &&
+          this.config.components.supportClassComponents &&
+          /(^|\.)(Pure)?Component$/.test(
+            parent.getExtends()?.getExpression().getText() || ''
+          )
+          ? ancestor
+          : undefined;
+      }
+      if (
+        (Node.isFunctionDeclaration(ancestor) ||
+          Node.isFunctionExpression(ancestor) ||
+          Node.isArrowFunction(ancestor)) &&
+        this.isComponentFunction(ancestor)
+      ) {
+        return ancestor;
+      }
+    }
+    return undefined;
+  }
+
+  private isComponentFunction(
+    fn: FunctionDeclaration | FunctionExpression | ArrowFunction
+  ): boolean {
+    if (!Node.isArrowFunction(fn)) {
+      const name = fn.getName();
+      if (name) return /^[A-Z]/.test(name);
+      if (Node.isFunctionDeclaration(fn)) return fn.isDefaultExport();
+    }
+
+    // Look through memo() and forwardRef() wrappers
+    let parent: Node | undefined = fn.getParent();
+    while (
+      Node.isCallExpression(parent) &&
+      /(^|\.)(memo|forwardRef)$/.test(parent.getExpression().getText())
+    ) {
+      parent = parent.getParent();
+    }
 
-      // Add new keys with empty values
-      Object.keys(sortedTranslations).forEach((key) => {
-        if (!targetTranslations[key]) {
-          targetTranslations[key] = '';
+    if (Node.isVariableDeclaration(parent)) {
+      return /^[A-Z]/.test(parent.getName());
+    }
+    return Node.isExportAssignment(parent);
+  }
+
+  /**
+   * Bind `t` at the start of each component that doesn't declare it yet: a
+   * `useTranslation()` hook in function components, turning expression-bodied
+   * arrows into blocks, or `this.props.t` in class component methods, whose
+   * export is wrapped with withTranslation()
+   */
+  private createHookEdits(
+    sourceFile: SourceFile,
+    scopes: ComponentScope[],
+    namespace?: string
+  ): { edits: TextEdit[]; hooks: number; imports: string[] } {
+    const edits: TextEdit[] = [];
+    const imports = new Set<string>();
+    let hooks = 0;
+    if (!this.config.components.addUseTranslationHook) {
+      return { edits, hooks, imports: [] };
+    }
+
+    const content = sourceFile.getFullText();
+    const unit = this.getIndentUnit(content);
+    const namespaceArg = namespace ? this.quoteKey(namespace) : '';
+    const wrapped = new Set<Node>();
+
+    for (const scope of scopes) {
+      if (this.declaresT(scope)) continue;
+
+      let statement = `const { t } = useTranslation(${namespaceArg});`;
+      if (Node.isMethodDeclaration(scope)) {
+        const cls = this.getClass(scope);
+        if (!wrapped.has(cls)) {
+          wrapped.add(cls);
+          edits.push(...this.createWrapEdits(cls, namespaceArg)!);
+          imports.add('withTranslation').add('WithTranslation');
         }
-      });
+        statement = 'const { t } = this.props;';
+      } else {
+        imports.add('useTranslation');
+      }
+
+      const body = scope.getBody();
+      if (!body) continue;
+
+      if (Node.isBlock(body)) {
+        const [first] = body.getStatements();
+        const indent = first
+          ? this.getIndentation(content, first.getStart())
+          : `${this.getIndentation(content, scope.getStart())}${unit}`;
+        const start = body.getStart() + 1;
+        edits.push({ range: [start, start], text: `\n${indent}${statement}` });
+      } else {
+        // `() => <p>...</p>` becomes a block that returns the JSX, indented
+        // from the line of the arrow
+        const arrow = scope.getFirstChildByKindOrThrow(
+          SyntaxKind.EqualsGreaterThanToken
+        );
+        const baseIndent = this.getIndentation(content, arrow.getStart());
+        const indent = `${baseIndent}${unit}`;
+        edits.push(
+          {
+            range: [body.getStart(), body.getStart()],
+            text: `{\n${indent}${statement}\n${indent}return `,
+          },
+          {
+            range: [body.getEnd(), body.getEnd()],
+            text: `;\n${baseIndent}}`,
+          }
+        );
+      }
+      hooks++;
+    }
 
-      // Sort and write
-      const sortedTarget = this.config.format.sortKeys
-        ? this.sortObjectKeys(targetTranslations)
-        : targetTranslations;
+    return { edits, hooks, imports: [...imports] };
+  }
 
-      await fs.writeJson(targetFile, sortedTarget, {
-        spaces: this.config.format.indent,
-      });
-      console.log(`📝 Generated ${targetFile} template`);
+  /**
+   * Whether `t` can be bound where a scope renders: class components only
+   * get it from a withTranslation() wrapper around their export
+   */
+  private canBindT(scope: ComponentScope): boolean {
+    return (
+      !Node.isMethodDeclaration(scope) ||
+      this.declaresT(scope) ||
+      this.createWrapEdits(this.getClass(scope), '') !== undefined
+    );
+  }
+
+  /** The class of a method findComponentScope() returned */
+  private getClass(
+    method: MethodDeclaration
+  ): ClassDeclaration | ClassExpression {
+    return method.getParentOrThrow() as ClassDeclaration | ClassExpression;
+  }
+
+  /**
+   * Edits exporting a class component through withTranslation(), which
+   * passes `t` as a prop, and adding WithTranslation to its props type.
+   * Undefined unless the class is the default export, under its name.
+   */
+  private createWrapEdits(
+    cls: ClassDeclaration | ClassExpression,
+    namespaceArg: string
+  ): TextEdit[] | undefined {
+    const name = cls.getName();
+    const base = cls.getExtends();
+    if (!name || !base || cls.getDecorators().length > 0) return undefined;
+
+    const [props] = base.getTypeArguments();
+    const edits: TextEdit[] = [
+      props
+        ? {
+            range: [props.getStart(), props.getEnd()],
+            text: `${props.getText()} & WithTranslation`,
+          }
+        : {
+            range: [base.getEnd(), base.getEnd()],
+            text: '<WithTranslation>',
+          },
+    ];
+    const wrapper = `withTranslation(${namespaceArg})(${name})`;
+
+    // export default class Greeting extends Component { ... }
+    if (Node.isClassDeclaration(cls) && cls.hasDefaultKeyword()) {
+      const keyword = cls.getFirstChildByKindOrThrow(SyntaxKind.ClassKeyword);
+      const end = cls.getSourceFile().getEnd();
+      return [
+        ...edits,
+        { range: [cls.getStart(), keyword.getStart()], text: '' },
+        { range: [end, end], text: `\nexport default ${wrapper};\n` },
+      ];
     }
+
+    // export default Greeting;
+    const assignment = cls
+      .getSourceFile()
+      .getExportAssignments()
+      .find(
+        (exported) =>
+          !exported.isExportEquals() &&
+          exported.getExpression().getText() === name
+      );
+    if (!assignment) return undefined;
+
+    const expression = assignment.getExpression();
+    return [
+      ...edits,
+      {
+        range: [expression.getStart(), expression.getEnd()],
+        text: wrapper,
+      },
+    ];
   }
 
-  private sortObjectKeys(obj: Record<string, string>): Record<string, string> {
-    const sorted: Record<string, string> = {};
-    Object.keys(obj)
-      .sort()
-      .forEach((key) => {
-        sorted[key] = obj[key];
-      });
-    return sorted;
+  /** Whether `t` is already bound in a component, e.g. by an existing hook */
+  private declaresT(scope: ComponentScope): boolean {
+    return scope
+      .getDescendants()
+      .some(
+        (node) =>
+          (Node.isBindingElement(node) ||
+            Node.isVariableDeclaration(node) ||
+            Node.isParameterDeclaration(node)) &&
+          node.getNameNode().getText() === 't'
+      );
   }
 
-  private async generateTypeDefinitions(): Promise<void> {
-    const keys = Array.from(this.translationKeys.values());
+  private createTransElement(
+    key: string,
+    components: RichTextComponent[],
+    values?: InterpolationValue[],
+    namespace?: string
+  ): string {
+    const i18nKey = key.includes('"') ? `{${JSON.stringify(key)}}` : `"${key}"`;
+    const componentsProp = components
+      .map(({ index, element }) => `${index}: ${element}`)
+      .join(', ');
+    const valuesProp = values
+      ? ` values={${this.createValuesObject(values)}}`
+      : '';
+    // `<Trans>` has no hook to inherit the namespace from
+    const nsProp = namespace ? ` ns=${JSON.stringify(namespace)}` : '';
+
+    return `<Trans i18nKey=${i18nKey}${nsProp} components={{ ${componentsProp} }}${valuesProp} />`;
+  }
+
+  protected async generateTypeDefinitions(): Promise<void> {
+    const keys = Array.from(this.keyTexts.keys());
     const typeDefinition = `// Auto-generated i18n type definitions
 export interface I18nKeys {
 ${keys.map((key) => `  '${key}': string;`).join('\n')}
@@ -699,21 +1415,9 @@ export type TranslationKey = keyof I18nKeys;
 `;
 
     const typesFile = path.join(this.config.outputDir, 'types.ts');
-    await fs.writeFile(typesFile, typeDefinition);
+    await this.writer.write(typesFile, typeDefinition);
     console.log(`📝 Generated TypeScript definitions: ${typesFile}`);
   }
-
-  public getStats(): TransformationStats {
-    return { ...this.stats };
-  }
-
-  public getExtractedTexts(): TextExtraction[] {
-    return [...this.extractedTexts];
-  }
-
-  public getComponentInfo(): ComponentInfo[] {
-    return [...this.componentInfo];
-  }
 }
 
 export default I18nTransformer;
@@ -0,0 +1,149 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { format } from 'util';
+import {
+  I18nConfig,
+  IsolatedTransform,
+  KeyRequest,
+  TransformationStats,
+} from '../types';
+import { WorkerPool } from '../utils/WorkerPool';
+
+interface IsolatedTransformer {
+  transformIsolated(
+    filePath: string,
+    keys?: string[]
+  ): Promise<IsolatedTransform>;
+}
+
+interface TransformTask {
+  filePath: string;
+  keys?: string[]; // Assigned on the main thread
+}
+
+interface TaskRunner {
+  run(task: TransformTask): Promise<IsolatedTransform>;
+  close(): Promise<void>;
+}
+
+/**
+ * Transforms files on worker threads for both transformers. Workers can't
+ * share key state, so each records the key requests of its files; the main
+ * thread replays them in file order exactly as a serial run would make
+ * them, and files whose keys came out different are redone with the
+ * assigned keys.
+ */
+export class ParallelTransform {
+  public static async run(options: {
+    type: 'typescript' | 'javascript';
+    config: I18nConfig;
+    files: string[];
+    workers: number;
+    assignKeys: (requests: KeyRequest[]) => string[];
+    createTransformer: (config: I18nConfig) => IsolatedTransformer;
+  }): Promise<IsolatedTransform[]> {
+    // Workers never write: the main thread applies their output in order
+    const config: I18nConfig = {
+      ...options.config,
+      advanced: {
+        ...options.config.advanced,
+        dryRun: true,
+        incremental: false,
+        since: undefined,
+        workers: 0,
+      },
+    };
+    const runner = ParallelTransform.createRunner(
+      options.type,
+      config,
+      options.workers,
+      options.createTransformer
+    );
+
+    try {
+      const results = await Promise.all(
+        options.files.map((filePath) => runner.run({ filePath }))
+      );
+
+      // Replayed one file after another, before any redo is awaited
+      const assigned = results.map((result) =>
+        options.assignKeys(result.requests)
+      );
+      await Promise.all(
+        results.map(async (result, index) => {
+          const keys = assigned[index];
+          if (keys.every((key, i) => key === result.keys[i])) return;
+          results[index] = await runner.run({
+            filePath: result.filePath,
+            keys,
+          });
+        })
+      );
+
+      return results;
+    } finally {
+      await runner.close();
+    }
+  }
+
+  public static mergeStats(
+    into: TransformationStats,
+    from: TransformationStats
+  ): void {
+    const target = into as unknown as Record<string, number | string[]>;
+    Object.entries(from).forEach(([name, value]) => {
+      target[name] = Array.isArray(value)
+        ? [...(target[name] as string[]), ...value]
+        : (target[name] as number) + value;
+    });
+  }
+
+  /** Run `action` with console.log output collected instead of printed */
+  public static async captureLogs<T>(
+    action: () => Promise<T>
+  ): Promise<{ result: T; logs: string[] }> {
+    const logs: string[] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => {
+      logs.push(format(...args));
+    };
+
+    try {
+      return { result: await action(), logs };
+    } finally {
+      console.log = log;
+    }
+  }
+
+  private static createRunner(
+    type: 'typescript' | 'javascript',
+    config: I18nConfig,
+    workers: number,
+    createTransformer: (config: I18nConfig) => IsolatedTransformer
+  ): TaskRunner {
+    const script = path.join(__dirname, 'TransformWorker.js');
+    if (fs.existsSync(script)) {
+      return new WorkerPool<TransformTask, IsolatedTransform>(script, workers, {
+        type,
+        config,
+      });
+    }
+
+    // Run from the TypeScript sources (tests, ts-node) there is no compiled
+    // worker script, so one transformer takes the tasks in turn instead
+    const transformer = createTransformer(config);
+    let queue: Promise<unknown> = Promise.resolve();
+    return {
+      run: (task) => {
+        const result = queue.then(() =>
+          transformer.transformIsolated(task.filePath, task.keys)
+        );
+        queue = result.catch(() => undefined);
+        return result;
+      },
+      close: async () => undefined,
+    };
+  }
+}
+
+export default ParallelTransform;
@@ -0,0 +1,133 @@
+import * as path from 'path';
+import {
+  I18nConfig,
+  I18nProjectStats,
+  LanguageCoverage,
+  FileI18nStats,
+  LocaleFileReport,
+} from '../types';
+import { ConfigManager } from './ConfigManager';
+import { UniversalTransformer } from './UniversalTransformer';
+import { ParallelTransform } from './ParallelTransform';
+import { LocaleValidator } from '../utils/LocaleValidator';
+import { LocaleFormat } from '../utils/LocaleFormat';
+import { TextValidator } from '../utils/TextValidator';
+
+/**
+ * Measures i18n progress: translation coverage of each target language and
+ * how many hard-coded strings and unconverted components remain
+ */
+export class StatsCollector {
+  private config: I18nConfig;
+  private validator: TextValidator;
+  private quiet: boolean; // Keep the scan's progress logs off stdout
+
+  constructor(config?: I18nConfig, options: { quiet?: boolean } = {}) {
+    this.config = config || ConfigManager.getInstance().getConfig();
+    this.validator = new TextValidator(this.config);
+    this.quiet = !!options.quiet;
+  }
+
+  public async collect(): Promise<I18nProjectStats> {
+    if (!this.quiet) return this.gather();
+
+    const { result } = await ParallelTransform.captureLogs(() => this.gather());
+    return result;
+  }
+
+  private async gather(): Promise<I18nProjectStats> {
+    const { sourceKeys, coverage } = await this.collectCoverage();
+    const files = await this.collectFiles();
+
+    return {
+      generatedAt: new Date().toISOString(),
+      sourceLanguage: this.config.sourceLanguage,
+      sourceKeys,
+      coverage,
+      components: {
+        total: files.length,
+        usingTranslation: files.filter((file) => file.hasUseTranslation).length,
+      },
+      hardcodedStrings: files.reduce(
+        (sum, file) => sum + file.hardcodedStrings.length,
+        0
+      ),
+      files,
+    };
+  }
+
+  private async collectCoverage(): Promise<{
+    sourceKeys: number;
+    coverage: LanguageCoverage[];
+  }> {
+    const sourceFiles = await new LocaleFormat(this.config).getLocaleFiles(
+      this.config.sourceLanguage
+    );
+
+    // Nothing has been extracted yet, so there is nothing to cover
+    if (sourceFiles.length === 0) {
+      return { sourceKeys: 0, coverage: [] };
+    }
+
+    const report = await new LocaleValidator(this.config).validate();
+    const sumOf = (
+      language: string,
+      count: (file: LocaleFileReport) => number
+    ): number =>
+      report.files
+        .filter((file) => file.language === language)
+        .reduce((sum, file) => sum + count(file), 0);
+
+    // Namespaced projects have one file per namespace and language
+    const coverage = this.config.targetLanguages.map((language) => {
+      const total = sumOf(language, (file) => file.expectedKeys);
+      const untranslated = sumOf(
+        language,
+        (file) =>
+          file.issues.filter(
+            (issue) => issue.type === 'missing' || issue.type === 'empty'
+          ).length
+      );
+      const translated = total - untranslated;
+
+      return {
+        language,
+        translated,
+        total,
+        percentage:
+          total === 0 ? 100 : Math.round((translated / total) * 1000) / 10,
+      };
+    });
+
+    return {
+      sourceKeys: sumOf(this.config.sourceLanguage, (file) => file.totalKeys),
+      coverage,
+    };
+  }
+
+  private async collectFiles(): Promise<FileI18nStats[]> {
+    const { extractions, components } = await new UniversalTransformer(
+      this.config
+    ).scanSources();
+
+    return components.map((component) => {
+      const filePath = path.relative(process.cwd(), component.filePath);
+
+      return {
+        filePath,
+        component: component.name,
+        hasUseTranslation: component.hasUseTranslation,
+        hardcodedStrings: extractions
+          .filter(
+            (extraction) =>
+              path.resolve(extraction.filePath) ===
+                path.resolve(component.filePath) &&
+              this.validator.isValidTranslationText(extraction.text)
+          )
+          .map((extraction) => ({ ...extraction, filePath })),
+      };
+    });
+  }
+}
+
+export default StatsCollector;
@@ -0,0 +1,32 @@
+import { parentPort, workerData } from 'worker_threads';
+import { I18nConfig } from '../types';
+import { I18nTransformer } from './I18nTransformer';
+import { JavaScriptTransformer } from '../utils/JavaScriptTransformer';
+
+/**
+ * Worker thread of parallel transforms (see ParallelTransform), keeping one
+ * transformer for all the files it is given
+ */
+const { type, config } = workerData as {
+  type: 'typescript' | 'javascript';
+  config: I18nConfig;
+};
+const transformer =
+  type === 'typescript'
+    ? new I18nTransformer(config)
+    : new JavaScriptTransformer(config);
+
+parentPort?.on(
+  'message',
+  async ({ filePath, keys }: { filePath: string; keys?: string[] }) => {
+    try {
+      parentPort!.postMessage({
+        result: await transformer.transformIsolated(filePath, keys),
+      });
+    } catch (error) {
+      parentPort!.postMessage({
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+);
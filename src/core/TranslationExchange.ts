@@ -0,0 +1,466 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { Project, SourceFile, Node } from 'ts-morph';
+import {
+  I18nConfig,
+  ExchangeFormat,
+  ImportedTranslation,
+  SourceReference,
+  TranslationUnit,
+  TranslationImportResult,
+} from '../types';
+import { ConfigManager } from './ConfigManager';
+import { UniversalTransformer } from './UniversalTransformer';
+import { LocaleFormat } from '../utils/LocaleFormat';
+import { PluralForms } from '../utils/PluralForms';
+import { PoFormat } from '../utils/PoFormat';
+import { XliffFormat } from '../utils/XliffFormat';
+import { CsvFormat } from '../utils/CsvFormat';
+
+/**
+ * Moves translations between the JSON locale files and the formats
+ * translators work in. Exports carry every source text with its current
+ * translation; imports merge translated files back into the locale files.
+ */
+export class TranslationExchange {
+  private config: I18nConfig;
+  private localeFormat: LocaleFormat;
+
+  constructor(config?: I18nConfig) {
+    this.config = config || ConfigManager.getInstance().getConfig();
+    this.localeFormat = new LocaleFormat(this.config);
+  }
+
+  /**
+   * Write one file per target language (plus a `messages.pot` template for
+   * gettext), or a single spreadsheet for CSV, returning the written paths
+   */
+  public async export(
+    format: ExchangeFormat,
+    outputDir: string
+  ): Promise<string[]> {
+    const references = await this.collectReferences();
+    const files: string[] = [];
+
+    if (format === 'csv') {
+      const filePath = path.join(outputDir, 'translations.csv');
+      await fs.outputFile(filePath, await this.createSpreadsheet(references));
+      return [filePath];
+    }
+
+    if (format === 'po') {
+      const templatePath = path.join(outputDir, 'messages.pot');
+      await fs.outputFile(
+        templatePath,
+        PoFormat.serialize(await this.collectUnits(undefined, references))
+      );
+      files.push(templatePath);
+    }
+
+    for (const language of this.config.targetLanguages) {
+      const units = await this.collectUnits(language, references);
+      const filePath = path.join(
+        outputDir,
+        `${language}.${format === 'po' ? 'po' : 'xlf'}`
+      );
+      await fs.outputFile(
+        filePath,
+        format === 'po'
+          ? PoFormat.serialize(units, language)
+          : XliffFormat.serialize(
+              units,
+              this.config.sourceLanguage,
+              language,
+              format === 'xliff2' ? '2.0' : '1.2'
+            )
+      );
+      files.push(filePath);
+    }
+
+    return files;
+  }
+
+  /**
+   * Merge translated files into the target locale files, with the format
+   * taken from the file extension unless given. The language of a PO or
+   * XLIFF file comes from the file itself, or else from its name; a CSV
+   * spreadsheet holds a column per language.
+   */
+  public async import(
+    files: string[],
+    format?: ExchangeFormat
+  ): Promise<TranslationImportResult[]> {
+    const results: TranslationImportResult[] = [];
+
+    for (const filePath of files) {
+      const content = await fs.readFile(filePath, 'utf8');
+      const extension = path.extname(filePath);
+      const fileFormat =
+        format ||
+        (extension === '.po' ? 'po' : extension === '.csv' ? 'csv' : 'xliff');
+      const documents =
+        fileFormat === 'csv'
+          ? this.readSpreadsheet(content)
+          : [
+              fileFormat === 'po'
+                ? this.readPo(content)
+                : XliffFormat.parse(content),
+            ];
+
+      for (const { language: declared, translations } of documents) {
+        const language = declared || path.basename(filePath, extension);
+        if (!this.config.targetLanguages.includes(language)) {
+          throw new Error(
+            `${filePath}: "${language}" is not a target language`
+          );
+        }
+
+        results.push({
+          filePath,
+          language,
+          ...(await this.merge(language, translations)),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * One row per key with the source text, a column per target language and
+   * where the text was found. Plural forms get a row per category any
+   * target language needs, left empty for languages without it.
+   */
+  private async createSpreadsheet(
+    references: Map<string, SourceReference[]>
+  ): Promise<string> {
+    const languages = this.config.targetLanguages;
+    const rows = new Map<
+      string,
+      { unit: TranslationUnit; targets: string[] }
+    >();
+
+    for (const [index, language] of languages.entries()) {
+      for (const unit of await this.collectUnits(language, references)) {
+        if (!rows.has(unit.key)) {
+          rows.set(unit.key, { unit, targets: languages.map(() => '') });
+        }
+        rows.get(unit.key)!.targets[index] = unit.target;
+      }
+    }
+
+    const keys = [...rows.keys()];
+    if (this.config.format.sortKeys) keys.sort();
+
+    // The byte order mark makes Excel read the file as UTF-8
+    return (
+      '\uFEFF' +
+      CsvFormat.serialize([
+        ['key', this.config.sourceLanguage, ...languages, 'context'],
+        ...keys.map((key) => {
+          const { unit, targets } = rows.get(key)!;
+          const context = unit.references
+            .map(({ filePath, line, type }) => `${filePath}:${line} (${type})`)
+            .join('; ');
+          return [key, unit.source, ...targets, context];
+        }),
+      ])
+    );
+  }
+
+  /** Translations of each language column with a non-empty cell */
+  private readSpreadsheet(
+    content: string
+  ): { language: string; translations: ImportedTranslation[] }[] {
+    const [header, ...rows] = CsvFormat.parse(content);
+    const keyColumn = header ? header.indexOf('key') : -1;
+    if (keyColumn === -1) {
+      throw new Error('The spreadsheet needs a "key" column');
+    }
+    const sourceColumn = header.indexOf(this.config.sourceLanguage);
+
+    return header
+      .map((language, column) => ({ language, column }))
+      .filter(({ language }) => this.config.targetLanguages.includes(language))
+      .map(({ language, column }) => ({
+        language,
+        translations: rows
+          .filter((row) => row[keyColumn] && row[column])
+          .map((row) => ({
+            key: row[keyColumn],
+            source: sourceColumn === -1 ? undefined : row[sourceColumn],
+            target: row[column],
+          })),
+      }));
+  }
+
+  private readPo(content: string): {
+    language?: string;
+    translations: ImportedTranslation[];
+  } {
+    const { headers, entries } = PoFormat.parse(content);
+
+    // Fuzzy entries still need a translator's review
+    const translations = entries
+      .filter((entry) => !entry.fuzzy && entry.translation !== '')
+      .map((entry) => ({
+        key: entry.context ?? entry.id,
+        source: entry.id,
+        target: entry.translation,
+      }));
+
+    return { language: headers.Language, translations };
+  }
+
+  /**
+   * Units of every source key, with plural forms expanded to the categories
+   * of the language. Without a language, the units form the template.
+   */
+  private async collectUnits(
+    language: string | undefined,
+    references: Map<string, SourceReference[]>
+  ): Promise<TranslationUnit[]> {
+    const units: TranslationUnit[] = [];
+    const sourceFiles = await this.localeFormat.getLocaleFiles(
+      this.config.sourceLanguage
+    );
+
+    for (const { namespace, filePath } of sourceFiles) {
+      const source = await this.readLocale(filePath);
+      const target = language
+        ? await this.readLocale(
+            this.localeFormat.getLocalePath(language, namespace)
+          )
+        : {};
+      const { messages, pluralKeys } = PluralForms.expand(
+        source,
+        language || this.config.sourceLanguage
+      );
+
+      for (const [key, text] of Object.entries(messages)) {
+        // An empty msgid would read as the PO header
+        if (text === '') continue;
+
+        const plural = pluralKeys.has(key)
+          ? PluralForms.splitKey(key)
+          : undefined;
+        units.push({
+          key: this.qualify(key, namespace),
+          source: source[key] ?? text,
+          target: target[key] ?? '',
+          references:
+            references.get(this.qualify(plural?.base ?? key, namespace)) || [],
+          pluralCategory: plural?.category,
+        });
+      }
+    }
+
+    return units;
+  }
+
+  /**
+   * Where each key is used in the sources: the `t()` calls and `<Trans>`
+   * elements of transformed files, and the texts still hard-coded
+   */
+  private async collectReferences(): Promise<Map<string, SourceReference[]>> {
+    const references = new Map<string, SourceReference[]>();
+    const add = (key: string, filePath: string, reference: SourceReference) => {
+      const qualified = this.qualify(
+        key,
+        this.localeFormat.getNamespace(filePath)
+      );
+      references.set(qualified, [
+        ...(references.get(qualified) || []),
+        reference,
+      ]);
+    };
+    const relative = (filePath: string) =>
+      path.relative(process.cwd(), filePath).replace(/\\/g, '/');
+
+    // Parsed one at a time, so the project never holds every file
+    const sources = new UniversalTransformer(this.config);
+    const project = new Project({ useInMemoryFileSystem: true });
+    for (const filePath of sources.findSourceFiles()) {
+      const sourceFile = project.createSourceFile(
+        filePath,
+        await fs.readFile(filePath, 'utf8'),
+        { overwrite: true }
+      );
+      for (const { key, line, type } of TranslationExchange.findKeyUsages(
+        sourceFile
+      )) {
+        add(key, filePath, { filePath: relative(filePath), line, type });
+      }
+      project.removeSourceFile(sourceFile);
+    }
+
+    for (const extraction of await sources.extract()) {
+      add(extraction.key, extraction.filePath, {
+        filePath: relative(extraction.filePath),
+        line: extraction.line,
+        type: extraction.type,
+      });
+    }
+
+    references.forEach((list) =>
+      list.sort(
+        (a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line
+      )
+    );
+    return references;
+  }
+
+  /**
+   * Keys passed as literals to `t()`, `i18n.t()` or the `i18nKey` prop of
+   * `<Trans>`, with the extraction type of where the call is rendered
+   */
+  private static findKeyUsages(
+    sourceFile: SourceFile
+  ): { key: string; line: number; type: SourceReference['type'] }[] {
+    const usages: {
+      key: string;
+      line: number;
+      type: SourceReference['type'];
+    }[] = [];
+    const literal = (node: Node | undefined) =>
+      Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)
+        ? node.getLiteralValue()
+        : undefined;
+
+    sourceFile.forEachDescendant((node) => {
+      if (Node.isCallExpression(node)) {
+        const key = literal(node.getArguments()[0]);
+        if (key === undefined) return;
+        if (!/^(i18n\.)?t$/.test(node.getExpression().getText())) return;
+
+        usages.push({
+          key,
+          line: node.getStartLineNumber(),
+          type: TranslationExchange.getUsageType(node),
+        });
+      } else if (
+        Node.isJsxAttribute(node) &&
+        node.getNameNode().getText() === 'i18nKey'
+      ) {
+        // i18nKey="…" or i18nKey={"…"}
+        const initializer = node.getInitializer();
+        const key = literal(
+          Node.isJsxExpression(initializer)
+            ? initializer.getExpression()
+            : initializer
+        );
+        if (key === undefined) return;
+
+        usages.push({
+          key,
+          line: node.getStartLineNumber(),
+          type: 'rich-text',
+        });
+      }
+    });
+
+    return usages;
+  }
+
+  /**
+   * `placeholder={t('…')}` and the like, `{t('…')}` between tags, or a call
+   * in plain code
+   */
+  private static getUsageType(call: Node): SourceReference['type'] {
+    const container = call.getParent();
+    if (!Node.isJsxExpression(container)) return 'string-literal';
+
+    const parent = container.getParent();
+    if (Node.isJsxAttribute(parent)) {
+      const name = parent.getNameNode().getText();
+      return name === 'placeholder' || name === 'title' || name === 'aria-label'
+        ? name
+        : 'attribute';
+    }
+    return 'jsx-text';
+  }
+
+  /**
+   * Write translations into the locale files of a language. Keys the source
+   * locale doesn't have are skipped, and translations of a source text that
+   * has changed since the export are refused.
+   */
+  private async merge(
+    language: string,
+    translations: ImportedTranslation[]
+  ): Promise<{
+    added: string[];
+    changed: string[];
+    skipped: string[];
+    refused: string[];
+  }> {
+    const byKey = new Map(translations.map((unit) => [unit.key, unit]));
+    const known = new Set<string>();
+    const added: string[] = [];
+    const changed: string[] = [];
+    const refused: string[] = [];
+    const sourceFiles = await this.localeFormat.getLocaleFiles(
+      this.config.sourceLanguage
+    );
+
+    for (const { namespace, filePath } of sourceFiles) {
+      const source = await this.readLocale(filePath);
+      const { messages } = PluralForms.expand(source, language);
+      const targetPath = this.localeFormat.getLocalePath(language, namespace);
+      const target = (await fs.pathExists(targetPath))
+        ? await this.localeFormat.read(targetPath)
+        : {};
+      let modified = false;
+
+      for (const [key, text] of Object.entries(messages)) {
+        const unit = byKey.get(this.qualify(key, namespace));
+        if (!unit) continue;
+
+        known.add(unit.key);
+        if (
+          unit.source !== undefined &&
+          unit.source !== (source[key] ?? text)
+        ) {
+          refused.push(unit.key);
+          continue;
+        }
+        if (target[key] === unit.target) continue;
+
+        (target[key] ? changed : added).push(unit.key);
+        target[key] = unit.target;
+        modified = true;
+      }
+
+      if (modified) {
+        await fs.outputJson(targetPath, this.localeFormat.serialize(target), {
+          spaces: this.config.format.indent,
+        });
+      }
+    }
+
+    return {
+      added,
+      changed,
+      skipped: [...byKey.keys()].filter((key) => !known.has(key)),
+      refused,
+    };
+  }
+
+  private qualify(key: string, namespace?: string): string {
+    return namespace ? `${namespace}:${key}` : key;
+  }
+
+  private async readLocale(filePath: string): Promise<Record<string, string>> {
+    if (!(await fs.pathExists(filePath))) return {};
+
+    const entries: Record<string, string> = {};
+    Object.entries(await this.localeFormat.read(filePath)).forEach(
+      ([key, value]) => {
+        entries[key] = typeof value === 'string' ? value : '';
+      }
+    );
+    return entries;
+  }
+}
+
+export default TranslationExchange;
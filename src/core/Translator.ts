@@ -0,0 +1,190 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import {
+  I18nConfig,
+  TranslationProvider,
+  TranslationFillResult,
+} from '../types';
+import { ConfigManager } from './ConfigManager';
+import { LocaleFormat } from '../utils/LocaleFormat';
+import { PluralForms } from '../utils/PluralForms';
+import { MessageTokens } from '../utils/MessageTokens';
+import { DictionaryProvider } from '../utils/DictionaryProvider';
+
+type ProviderFactory = (config: I18nConfig) => TranslationProvider;
+
+/**
+ * Fills empty or missing target locale values through a translation
+ * provider. Existing translations are never overwritten.
+ */
+export class Translator {
+  private static providers = new Map<string, ProviderFactory>([
+    [
+      'dictionary',
+      (config) =>
+        new DictionaryProvider(
+          path.resolve(
+            config.translation.dictionaryPath ||
+              './translations/dictionary.json'
+          )
+        ),
+    ],
+  ]);
+
+  private config: I18nConfig;
+  private localeFormat: LocaleFormat;
+  private provider?: TranslationProvider; // Created on first use otherwise
+
+  constructor(config?: I18nConfig, provider?: TranslationProvider) {
+    this.config = config || ConfigManager.getInstance().getConfig();
+    this.localeFormat = new LocaleFormat(this.config);
+    this.provider = provider;
+  }
+
+  /** Make a provider available by name, e.g. for `--provider` */
+  public static registerProvider(name: string, factory: ProviderFactory): void {
+    Translator.providers.set(name, factory);
+  }
+
+  /**
+   * Create a registered provider, or load one from a module whose default
+   * export is a provider class (constructed with the config) or instance
+   */
+  public static async createProvider(
+    name: string,
+    config: I18nConfig
+  ): Promise<TranslationProvider> {
+    const factory = Translator.providers.get(name);
+    if (factory) return factory(config);
+
+    const modulePath = path.resolve(name);
+    if (!fs.existsSync(modulePath) && !fs.existsSync(`${modulePath}.js`)) {
+      throw new Error(
+        `Unknown translation provider "${name}". Available: ${[
+          ...Translator.providers.keys(),
+        ].join(', ')}, or a path to a provider module`
+      );
+    }
+
+    const exported: { default?: unknown } = await import(modulePath);
+    const Provider = exported.default ?? exported;
+    const provider: unknown =
+      typeof Provider === 'function'
+        ? new (Provider as new (config: I18nConfig) => unknown)(config)
+        : Provider;
+
+    if (!Translator.isProvider(provider)) {
+      throw new Error(`${name} does not export a translation provider`);
+    }
+    return provider;
+  }
+
+  private static isProvider(value: unknown): value is TranslationProvider {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      typeof (value as TranslationProvider).translateBatch === 'function'
+    );
+  }
+
+  public async getProviderName(): Promise<string> {
+    return (await this.getProvider()).name;
+  }
+
+  private async getProvider(): Promise<TranslationProvider> {
+    if (!this.provider) {
+      this.provider = await Translator.createProvider(
+        this.config.translation.provider,
+        this.config
+      );
+    }
+    return this.provider;
+  }
+
+  /**
+   * Translate the empty values of each target language (all configured
+   * ones by default), one result per locale file
+   */
+  public async translate(
+    languages: string[] = this.config.targetLanguages
+  ): Promise<TranslationFillResult[]> {
+    const results: TranslationFillResult[] = [];
+    const sourceFiles = await this.localeFormat.getLocaleFiles(
+      this.config.sourceLanguage
+    );
+
+    for (const language of languages) {
+      for (const { namespace, filePath } of sourceFiles) {
+        results.push(
+          await this.fill(
+            language,
+            await this.localeFormat.read(filePath),
+            this.localeFormat.getLocalePath(language, namespace)
+          )
+        );
+      }
+    }
+
+    return results;
+  }
+
+  private async fill(
+    language: string,
+    sourceEntries: Record<string, unknown>,
+    targetPath: string
+  ): Promise<TranslationFillResult> {
+    const source: Record<string, string> = {};
+    Object.entries(sourceEntries).forEach(([key, value]) => {
+      if (typeof value === 'string') source[key] = value;
+    });
+
+    const target = (await fs.pathExists(targetPath))
+      ? await this.localeFormat.read(targetPath)
+      : {};
+    const { messages } = PluralForms.expand(source, language);
+    const pending = Object.keys(messages).filter(
+      (key) => messages[key] !== '' && !target[key]
+    );
+    const result: TranslationFillResult = {
+      language,
+      filePath: targetPath,
+      translated: 0,
+      untranslated: [],
+      rejected: [],
+    };
+    const batchSize = Math.max(1, this.config.translation.batchSize);
+    const provider = await this.getProvider();
+
+    for (let start = 0; start < pending.length; start += batchSize) {
+      const keys = pending.slice(start, start + batchSize);
+      const texts = keys.map((key) => source[key] ?? messages[key]);
+      const translations = await provider.translateBatch(
+        texts,
+        this.config.sourceLanguage,
+        language
+      );
+
+      keys.forEach((key, index) => {
+        const translation = translations[index];
+        if (!translation) {
+          result.untranslated.push(key);
+        } else if (!MessageTokens.preserves(texts[index], translation)) {
+          result.rejected.push(key);
+        } else {
+          target[key] = translation;
+          result.translated++;
+        }
+      });
+    }
+
+    if (result.translated > 0) {
+      await fs.outputJson(targetPath, this.localeFormat.serialize(target), {
+        spaces: this.config.format.indent,
+      });
+    }
+
+    return result;
+  }
+}
+
+export default Translator;
@@ -1,10 +1,16 @@
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import * as glob from 'glob';
-import { I18nConfig, TransformationResult } from '../types';
+import {
+  I18nConfig,
+  TransformationResult,
+  TextExtraction,
+  ComponentInfo,
+} from '../types';
 import { ConfigManager } from './ConfigManager';
 import { I18nTransformer as TypeScriptTransformer } from './I18nTransformer';
 import { JavaScriptTransformer } from '../utils/JavaScriptTransformer';
+import { BaseTransformer } from './BaseTransformer';
 
 /**
  * Universal transformer that automatically detects project type
@@ -33,12 +39,78 @@ export class UniversalTransformer {
       const transformer = new TypeScriptTransformer(this.config);
       return transformer.transform();
     } else {
-      console.log('🎯 Using JavaScript regex-based transformation...');
+      console.log('🎯 Using JavaScript Babel AST-based transformation...');
       const transformer = new JavaScriptTransformer(this.config);
       return transformer.transform();
     }
   }
 
+  /**
+   * Extract translatable texts with the transformer matching the project type
+   * (or `advanced.transformerType`), without touching any file on disk
+   */
+  public async extract(): Promise<TextExtraction[]> {
+    const { extractions } = await this.scanSources();
+    return extractions;
+  }
+
+  /**
+   * Extract translatable texts and component info for every matched file,
+   * without touching any file on disk
+   */
+  public async scanSources(): Promise<{
+    extractions: TextExtraction[];
+    components: ComponentInfo[];
+  }> {
+    const transformer = await this.createTransformer();
+    const extractions = await transformer.extract();
+    return { extractions, components: transformer.getComponentInfo() };
+  }
+
+  /**
+   * Extract translatable texts from a single file without modifying it
+   */
+  public async extractFile(filePath: string): Promise<TextExtraction[]> {
+    return (await this.createTransformer()).extractFile(filePath);
+  }
+
+  /**
+   * A transformer for the project type, or the one `advanced.transformerType`
+   * asks for. Extraction runs through it; watch mode keeps it between runs.
+   */
+  public async createTransformer(): Promise<BaseTransformer> {
+    const requested = this.config.advanced.transformerType;
+    const type =
+      requested && requested !== 'auto'
+        ? requested
+        : (await this.detectProjectType()).type;
+
+    return type === 'typescript'
+      ? new TypeScriptTransformer(this.config)
+      : new JavaScriptTransformer(this.config);
+  }
+
+  /** Files under `srcDir` matching `include` and not `exclude` */
+  public findSourceFiles(): string[] {
+    const patterns = this.config.include.map((pattern) => {
+      // Use path.posix for glob patterns (always forward slashes)
+      const normalizedSrcDir = this.config.srcDir.replace(/\\/g, '/');
+      const normalizedPattern = pattern.replace(/\\/g, '/');
+      return path.posix.join(normalizedSrcDir, normalizedPattern);
+    });
+
+    let files: string[] = [];
+    for (const pattern of patterns) {
+      const matches = glob.sync(pattern, {
+        ignore: this.config.exclude.map((ex) => ex.replace(/\\/g, '/')),
+      });
+      files = files.concat(matches);
+    }
+
+    // Remove duplicates
+    return [...new Set(files)];
+  }
+
   /**
    * Detect whether this is a TypeScript or JavaScript project
    */
@@ -85,23 +157,7 @@ export class UniversalTransformer {
     }
 
     // Count actual files
-    const patterns = this.config.include.map((pattern) => {
-      // Use path.posix for glob patterns (always forward slashes)
-      const normalizedSrcDir = this.config.srcDir.replace(/\\/g, '/');
-      const normalizedPattern = pattern.replace(/\\/g, '/');
-      return path.posix.join(normalizedSrcDir, normalizedPattern);
-    });
-
-    let allFiles: string[] = [];
-    for (const pattern of patterns) {
-      const matches = glob.sync(pattern, {
-        ignore: this.config.exclude.map((ex) => ex.replace(/\\/g, '/')),
-      });
-      allFiles = allFiles.concat(matches);
-    }
-
-    // Remove duplicates
-    allFiles = [...new Set(allFiles)];
+    const allFiles = this.findSourceFiles();
 
     const tsFiles = allFiles.filter((file) => /\.(ts|tsx)$/.test(file)).length;
     const jsFiles = allFiles.filter((file) => /\.(js|jsx)$/.test(file)).length;
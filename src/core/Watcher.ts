@@ -0,0 +1,132 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { I18nConfig, WatchUpdate } from '../types';
+import { ConfigManager } from './ConfigManager';
+import { UniversalTransformer } from './UniversalTransformer';
+import { BaseTransformer } from './BaseTransformer';
+
+interface WatchOptions {
+  fix?: boolean; // Rewrite saved files instead of only reporting
+  debounce?: number; // Milliseconds to wait for a burst of saves to settle
+  onUpdate?: (update: WatchUpdate) => void;
+  onError?: (error: Error, filePath: string) => void;
+}
+
+/**
+ * Keeps one transformer alive while the sources are edited, so each save
+ * only re-extracts the saved file and adds its new texts to the locale
+ * files
+ */
+export class Watcher {
+  private config: I18nConfig;
+  private options: WatchOptions;
+  private sources: UniversalTransformer;
+  private transformer?: BaseTransformer;
+  private files: Set<string> = new Set();
+  private watchers: fs.FSWatcher[] = [];
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(config?: I18nConfig, options: WatchOptions = {}) {
+    this.config = config || ConfigManager.getInstance().getConfig();
+    this.options = options;
+    this.sources = new UniversalTransformer(this.config);
+  }
+
+  /** Start watching `srcDir`, returning the number of matched files */
+  public async start(): Promise<number> {
+    await this.prepare();
+
+    const srcDir = path.resolve(this.config.srcDir);
+    try {
+      this.watchers.push(
+        fs.watch(srcDir, { recursive: true }, (_event, fileName) =>
+          this.schedule(srcDir, fileName)
+        )
+      );
+    } catch {
+      // Without recursive watching (Linux before Node 20), watch each
+      // directory that has matched files
+      const directories = new Set([
+        srcDir,
+        ...[...this.files].map((file) => path.dirname(file)),
+      ]);
+      directories.forEach((directory) =>
+        this.watchers.push(
+          fs.watch(directory, (_event, fileName) =>
+            this.schedule(directory, fileName)
+          )
+        )
+      );
+    }
+
+    return this.files.size;
+  }
+
+  public close(): void {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers = [];
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Re-extract a saved file, one at a time, or return undefined when it
+   * isn't a matched source file
+   */
+  public handle(filePath: string): Promise<WatchUpdate | undefined> {
+    const update = this.queue.then(() => this.process(path.resolve(filePath)));
+    this.queue = update.catch(() => undefined);
+    return update;
+  }
+
+  private schedule(directory: string, fileName: string | Buffer | null): void {
+    if (!fileName) return;
+
+    // Editors often write a file several times per save
+    const filePath = path.join(directory, fileName.toString());
+    clearTimeout(this.timers.get(filePath));
+    this.timers.set(
+      filePath,
+      setTimeout(() => {
+        this.timers.delete(filePath);
+        this.handle(filePath).then(
+          (update) => update && this.options.onUpdate?.(update),
+          (error) => this.options.onError?.(error, filePath)
+        );
+      }, this.options.debounce ?? 100)
+    );
+  }
+
+  private async process(filePath: string): Promise<WatchUpdate | undefined> {
+    if (!(await fs.pathExists(filePath))) {
+      this.files.delete(filePath);
+      return undefined;
+    }
+
+    // A file that isn't known yet may have just been created
+    const transformer = await this.prepare();
+    if (!this.files.has(filePath)) this.refreshFiles();
+    if (!this.files.has(filePath)) return undefined;
+
+    const fix = !!this.options.fix;
+    const texts = await transformer.update(filePath, fix);
+    return { filePath, texts, fixed: fix && texts.length > 0 };
+  }
+
+  private async prepare(): Promise<BaseTransformer> {
+    if (!this.transformer) {
+      this.transformer = await this.sources.createTransformer();
+      this.refreshFiles();
+    }
+    return this.transformer;
+  }
+
+  private refreshFiles(): void {
+    this.files = new Set(
+      this.sources.findSourceFiles().map((file) => path.resolve(file))
+    );
+  }
+}
+
+export default Watcher;
@@ -0,0 +1,105 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { BackupManager } from '../BackupManager';
+import { I18nTransformer } from '../I18nTransformer';
+import { ConfigManager } from '../ConfigManager';
+import { I18nConfig } from '../../types';
+
+describe('BackupManager', () => {
+  let tmpDir: string;
+  let config: I18nConfig;
+
+  const source = `export function Hello() {
+  return <p>Hello there</p>;
+}
+`;
+  const untouched = `export const answer = 42;
+`;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'));
+    const defaults = ConfigManager.getInstance().getConfig();
+    config = {
+      ...defaults,
+      srcDir: path.join(tmpDir, 'src'),
+      outputDir: path.join(tmpDir, 'locales'),
+      backupDir: path.join(tmpDir, 'backup'),
+      targetLanguages: ['es'],
+      advanced: {
+        ...defaults.advanced,
+        createBackup: true,
+        generateTypeDefinitions: false,
+      },
+    };
+    await fs.outputFile(path.join(tmpDir, 'src', 'Hello.tsx'), source);
+    await fs.outputFile(path.join(tmpDir, 'src', 'answer.ts'), untouched);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  const relative = (...segments: string[]) =>
+    path.relative(process.cwd(), path.join(tmpDir, ...segments));
+
+  it('should roll back only the files the transform wrote', async () => {
+    const result = await new I18nTransformer(config).transform();
+    const helloPath = path.join(tmpDir, 'src', 'Hello.tsx');
+    expect(await fs.readFile(helloPath, 'utf8')).toContain("t('Hello there')");
+    await fs.appendFile(helloPath, '// edited after the run\n');
+
+    const backups = new BackupManager(config);
+    expect(await backups.list()).toEqual([
+      expect.objectContaining({ path: result.backupPath, files: 3 }),
+    ]);
+
+    const plan = await backups.plan();
+    expect(
+      plan.entries.map(({ filePath, action, edited }) => [
+        filePath,
+        action,
+        edited,
+      ])
+    ).toEqual([
+      [relative('locales', 'en.json'), 'delete', false],
+      [relative('locales', 'es.json'), 'delete', false],
+      [relative('src', 'Hello.tsx'), 'restore', true],
+    ]);
+
+    await fs.outputFile(path.join(tmpDir, 'src', 'answer.ts'), 'changed\n');
+    await backups.rollback(plan);
+
+    expect(await fs.readFile(helloPath, 'utf8')).toBe(source);
+    expect(await fs.pathExists(path.join(tmpDir, 'locales', 'en.json'))).toBe(
+      false
+    );
+    expect(
+      await fs.readFile(path.join(tmpDir, 'src', 'answer.ts'), 'utf8')
+    ).toBe('changed\n');
+  });
+
+  it('should pick a backup by timestamp and refuse ones without a manifest', async () => {
+    const backups = new BackupManager(config);
+    await fs.outputFile(
+      path.join(
+        tmpDir,
+        'backup',
+        'backup-2024-01-01T00-00-00-000Z',
+        'src',
+        'a'
+      ),
+      ''
+    );
+
+    await expect(backups.plan('2023-12-31')).rejects.toThrow(
+      'No backup 2023-12-31'
+    );
+    await expect(backups.plan('2024-01-01T00-00-00-000Z')).rejects.toThrow(
+      'has no manifest'
+    );
+    expect((await backups.list())[0].files).toBeUndefined();
+  });
+});
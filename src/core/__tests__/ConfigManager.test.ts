@@ -0,0 +1,46 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { ConfigManager } from '../ConfigManager';
+
+describe('ConfigManager', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should merge a config file over the defaults', async () => {
+    const configPath = path.join(tmpDir, 'i18n.config.json');
+    await fs.outputJson(configPath, {
+      srcDir: './app',
+      targetLanguages: ['ja'],
+      transformation: { extractRichText: true },
+      format: { structure: 'nested' },
+      git: { requireClean: false },
+      advanced: { incremental: true, workers: 2 },
+    });
+
+    const config = ConfigManager.getInstance().loadConfig(configPath);
+
+    expect(config.srcDir).toBe('./app');
+    expect(config.targetLanguages).toEqual(['ja']);
+    expect(config.transformation.extractRichText).toBe(true);
+    expect(config.transformation.extractJSXText).toBe(true);
+    expect(config.format.structure).toBe('nested');
+    expect(config.format.indent).toBe(2);
+    expect(config.git.requireClean).toBe(false);
+    expect(config.advanced).toMatchObject({
+      incremental: true,
+      workers: 2,
+      createBackup: true,
+    });
+    expect(ConfigManager.getInstance().getConfig()).toEqual(config);
+  });
+});
@@ -0,0 +1,157 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { execFileSync } from 'child_process';
+import { I18nTransformer } from '../I18nTransformer';
+import { ConfigManager } from '../ConfigManager';
+import { I18nConfig } from '../../types';
+
+describe('GitGuard', () => {
+  let tmpDir: string;
+  let config: I18nConfig;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', args, { cwd: tmpDir, encoding: 'utf8' });
+
+  beforeEach(async () => {
+    tmpDir = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'))
+    );
+
+    const defaults = ConfigManager.getInstance().getConfig();
+    config = {
+      ...defaults,
+      srcDir: path.join(tmpDir, 'src'),
+      outputDir: path.join(tmpDir, 'src', 'locales'),
+      backupDir: path.join(tmpDir, 'backup'),
+      targetLanguages: ['es'],
+      git: { ...defaults.git },
+      advanced: {
+        ...defaults.advanced,
+        createBackup: true,
+        generateTypeDefinitions: false,
+      },
+    };
+
+    await fs.outputFile(
+      path.join(tmpDir, 'src', 'Hello.tsx'),
+      `export function Hello() {
+  return <p>Hello there</p>;
+}
+`
+    );
+    await fs.outputFile(path.join(tmpDir, '.gitignore'), 'backup/\n');
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Initial commit');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should refuse files with uncommitted changes', async () => {
+    const helloPath = path.join(tmpDir, 'src', 'Hello.tsx');
+    await fs.appendFile(helloPath, '// work in progress\n');
+    const before = await fs.readFile(helloPath, 'utf8');
+
+    const result = await new I18nTransformer(config).transform();
+
+    expect(result.success).toBe(false);
+    expect(result.stats.errors[0]).toMatch(
+      /Uncommitted changes in 1 files to be transformed: .*Hello\.tsx\. Commit or stash them first, or pass --allow-dirty/
+    );
+    expect(await fs.readFile(helloPath, 'utf8')).toBe(before);
+    expect(await fs.pathExists(config.outputDir)).toBe(false);
+  });
+
+  it('should skip the folder backup when git has every file', async () => {
+    const result = await new I18nTransformer(config).transform();
+
+    expect(result.success).toBe(true);
+    expect(result.backupPath).toBeUndefined();
+    expect(await fs.pathExists(config.backupDir!)).toBe(false);
+  });
+
+  it('should back up as before when dirty files are allowed', async () => {
+    await fs.appendFile(path.join(tmpDir, 'src', 'Hello.tsx'), '// wip\n');
+    config.git = { ...config.git, requireClean: false };
+
+    const result = await new I18nTransformer(config).transform();
+
+    expect(result.success).toBe(true);
+    expect(result.backupPath).toBeDefined();
+  });
+
+  it('should back up files git does not track', async () => {
+    await fs.appendFile(path.join(tmpDir, '.gitignore'), 'src/Legacy.tsx\n');
+    git('commit', '-q', '-am', 'Ignore the legacy page');
+    await fs.outputFile(
+      path.join(tmpDir, 'src', 'Legacy.tsx'),
+      `export function Legacy() {
+  return <p>Old page</p>;
+}
+`
+    );
+
+    const result = await new I18nTransformer(config).transform();
+
+    expect(result.success).toBe(true);
+    expect(result.backupPath).toBeDefined();
+  });
+
+  it('should commit the changes onto a new branch', async () => {
+    await fs.outputFile(path.join(tmpDir, 'notes.txt'), 'unrelated\n');
+    config.git = { ...config.git, branch: 'i18n/extract' };
+
+    const result = await new I18nTransformer(config).transform();
+
+    expect(result.success).toBe(true);
+    expect(result.commit).toBe(git('rev-parse', '--short', 'HEAD').trim());
+    expect(git('branch', '--show-current').trim()).toBe('i18n/extract');
+    expect(git('log', '-1', '--format=%s').trim()).toBe(
+      'i18n: extract 1 texts from 1 files'
+    );
+    expect(
+      git('show', '--name-only', '--format=', 'HEAD').trim().split('\n')
+    ).toEqual(['src/Hello.tsx', 'src/locales/en.json', 'src/locales/es.json']);
+    // Only the transformed files are committed
+    expect(git('status', '--porcelain').trim()).toBe('?? notes.txt');
+  });
+
+  it('should leave no branch behind when committing fails', async () => {
+    config.git = { ...config.git, branch: 'i18n/extract' };
+    // Signing with `false` makes the commit fail
+    git('config', 'commit.gpgSign', 'true');
+    git('config', 'gpg.program', 'false');
+
+    const result = await new I18nTransformer(config).transform();
+
+    expect(result.success).toBe(false);
+    expect(git('branch', '--show-current').trim()).toBe('main');
+    expect(git('branch', '--list', 'i18n/extract')).toBe('');
+
+    // An existing branch is refused before any file is written
+    git('config', 'commit.gpgSign', 'false');
+    git('checkout', '-q', '--', '.');
+    git('clean', '-q', '-fd');
+    git('branch', 'i18n/extract');
+    const before = await fs.readFile(
+      path.join(tmpDir, 'src', 'Hello.tsx'),
+      'utf8'
+    );
+
+    const retry = await new I18nTransformer(config).transform();
+
+    expect(retry.stats.errors).toEqual([
+      'Transformation failed: Cannot commit onto i18n/extract: the branch already exists',
+    ]);
+    expect(
+      await fs.readFile(path.join(tmpDir, 'src', 'Hello.tsx'), 'utf8')
+    ).toBe(before);
+  });
+});
@@ -0,0 +1,815 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { I18nTransformer } from '../I18nTransformer';
+import { ConfigManager } from '../ConfigManager';
+import { I18nConfig } from '../../types';
+
+describe('I18nTransformer', () => {
+  let tmpDir: string;
+  let config: I18nConfig;
+
+  const writeComponent = async (name: string, content: string) => {
+    const filePath = path.join(tmpDir, 'src', name);
+    await fs.outputFile(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'));
+    const defaults = ConfigManager.getInstance().getConfig();
+    config = {
+      ...defaults,
+      srcDir: path.join(tmpDir, 'src'),
+      outputDir: path.join(tmpDir, 'locales'),
+      targetLanguages: ['es'],
+      transformation: { ...defaults.transformation },
+      advanced: {
+        ...defaults.advanced,
+        createBackup: false,
+        generateTypeDefinitions: false,
+      },
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  describe('transformJSXElements', () => {
+    it('should rewrite JSX text and attributes in place', async () => {
+      const filePath = await writeComponent(
+        'Profile.tsx',
+        `import React from 'react';
+
+export function Profile() {
+  // keep this comment
+  return (
+    <div>
+      <h1>User Profile</h1>
+      <input placeholder="Enter your email" />
+      <img alt={'Profile picture'} src="/avatar.png" />
+    </div>
+  );
+}
+`
+      );
+
+      const result = await new I18nTransformer(config).transform();
+      const output = await fs.readFile(filePath, 'utf8');
+
+      expect(result.success).toBe(true);
+      expect(output).toContain("<h1>{t('User Profile')}</h1>");
+      expect(output).toContain("placeholder={t('Enter your email')}");
+      expect(output).toContain("alt={t('Profile picture')}");
+      expect(output).toContain('src="/avatar.png"');
+      expect(output).toContain('// keep this comment');
+      expect(output).toContain('const { t } = useTranslation();');
+    });
+
+    it('should add a hook to every component that uses t', async () => {
+      const filePath = await writeComponent(
+        'Welcome.tsx',
+        `export const Banner = () => <p>Welcome back</p>;
+
+function Helper() {
+\treturn <span>Need help?</span>;
+}
+
+export function Page() {
+\tconst { t } = useLocalTranslation();
+\treturn <main><h1>{t('title')}</h1><Helper /><p>Read the guide</p></main>;
+}
+
+const notes = <p>Outside any component</p>;
+`
+      );
+
+      const result = await new I18nTransformer(config).transform();
+      const output = await fs.readFile(filePath, 'utf8');
+
+      expect(output).toContain(`export const Banner = () => {
+\tconst { t } = useTranslation();
+\treturn <p>{t('Welcome back')}</p>;
+};`);
+      expect(output).toContain(`function Helper() {
+\tconst { t } = useTranslation();
+\treturn <span>{t('Need help?')}</span>;`);
+      expect(output).toContain("<p>{t('Read the guide')}</p>");
+      expect(output.match(/useTranslation\(\)/g)).toHaveLength(2);
+      expect(output).toContain('<p>Outside any component</p>');
+      expect(result.stats.hooksAdded).toBe(2);
+      expect(result.translationKeys.has('Outside any component')).toBe(false);
+      expect(result.stats.warnings).toContain(
+        'Skipped "Outside any component" in Welcome.tsx: not inside a component'
+      );
+    });
+
+    it('should bind t in class components through withTranslation', async () => {
+      const greeting = await writeComponent(
+        'Greeting.tsx',
+        `import React, { Component } from 'react';
+
+interface Props {
+  name: string;
+}
+
+export default class Greeting extends Component<Props> {
+  render() {
+    return <p>Welcome back</p>;
+  }
+}
+`
+      );
+      const named = `import React, { Component } from 'react';
+
+export class Banner extends Component {
+  render() {
+    return <p>Limited offer</p>;
+  }
+}
+`;
+      const banner = await writeComponent('Banner.tsx', named);
+
+      const result = await new I18nTransformer(config).transform();
+
+      expect(await fs.readFile(greeting, 'utf8'))
+        .toBe(`import React, { Component } from 'react';
+import { withTranslation, WithTranslation } from "react-i18next";
+
+interface Props {
+  name: string;
+}
+
+class Greeting extends Component<Props & WithTranslation> {
+  render() {
+    const { t } = this.props;
+    return <p>{t('Welcome back')}</p>;
+  }
+}
+
+export default withTranslation()(Greeting);
+`);
+      expect(await fs.readFile(banner, 'utf8')).toBe(named);
+      expect(result.translationKeys.has('Limited offer')).toBe(false);
+      expect(result.stats.warnings).toContain(
+        'Skipped "Limited offer" in Banner.tsx: Banner can\'t be wrapped with withTranslation(); pass `t` to it manually'
+      );
+    });
+
+    it('should leave generics and comparisons untouched', async () => {
+      const source = `import React from 'react';
+
+export function isBetween(a: number, b: number, c: number, d: number) {
+  const items: Array<string> = [];
+  return a > b && c < d && items.length > 0;
+}
+`;
+      const filePath = await writeComponent('utils.tsx', source);
+
+      const result = await new I18nTransformer(config).transform();
+
+      expect(result.translationKeys.size).toBe(0);
+      expect(await fs.readFile(filePath, 'utf8')).toBe(source);
+    });
+
+    it('should preserve significant whitespace around JSX text', async () => {
+      const filePath = await writeComponent(
+        'Notice.tsx',
+        `export function Notice() {
+  return <p><b>Note:</b> Changes are saved automatically</p>;
+}
+`
+      );
+
+      await new I18nTransformer(config).transform();
+
+      expect(await fs.readFile(filePath, 'utf8')).toContain(
+        "</b> {t('Changes are saved automatically')}</p>"
+      );
+    });
+  });
+
+  describe('interpolation', () => {
+    it('should merge text and simple expressions into one message', async () => {
+      const filePath = await writeComponent(
+        'Inbox.tsx',
+        `export function Inbox({ user, count }: Props) {
+  return (
+    <p>
+      Hello {user.name}, you have {count} messages
+    </p>
+  );
+}
+`
+      );
+
+      const result = await new I18nTransformer(config).transform();
+
+      expect(await fs.readFile(filePath, 'utf8')).toContain(`    <p>
+      {t('Hello {{name}}, you have {{count}} messages', { name: user.name, count })}
+    </p>`);
+      expect([...result.keyTexts.keys()]).toEqual([
+        'Hello {{name}}, you have {{count}} messages',
+      ]);
+    });
+
+    it('should keep calls and elements outside messages', async () => {
+      const filePath = await writeComponent(
+        'Cart.tsx',
+        `export function Cart({ total, user }: Props) {
+  return (
+    <p>
+      Total: {formatPrice(total)} <b>{user.name}</b> Thanks again
+    </p>
+  );
+}
+`
+      );
+
+      await new I18nTransformer(config).transform();
+
+      expect(await fs.readFile(filePath, 'utf8')).toContain(
+        "{t('Total:')} {formatPrice(total)} <b>{user.name}</b> {t('Thanks again')}"
+      );
+    });
+  });
+
+  describe('plurals', () => {
+    it('should turn plural ternaries into count-based keys', async () => {
+      const filePath = await writeComponent(
+        'Cart.tsx',
+        `export function Cart({ items }: Props) {
+  return (
+    <p>
+      You have {items.length} {items.length === 1 ? 'item' : 'items'} in the cart
+    </p>
+  );
+}
+`
+      );
+      config.targetLanguages = ['es', 'ru', 'ja'];
+
+      await new I18nTransformer(config).transform();
+      const key = 'You have {{count}} items in the cart';
+      const readLocale = (language: string) =>
+        fs.readJson(path.join(tmpDir, 'locales', `${language}.json`));
+
+      expect(await fs.readFile(filePath, 'utf8')).toContain(
+        `{t('${key}', { count: items.length })}`
+      );
+      expect(await readLocale('en')).toEqual({
+        [`${key}_one`]: 'You have {{count}} item in the cart',
+        [`${key}_other`]: key,
+      });
+      expect(Object.keys(await readLocale('ru'))).toEqual([
+        `${key}_few`,
+        `${key}_many`,
+        `${key}_one`,
+        `${key}_other`,
+      ]);
+      expect(Object.keys(await readLocale('ja'))).toEqual([`${key}_other`]);
+    });
+
+    it('should pluralize count concatenations', async () => {
+      const filePath = await writeComponent(
+        'Upload.tsx',
+        `export function Upload({ count }: Props) {
+  return <span>{count + ' files'} selected</span>;
+}
+`
+      );
+
+      await new I18nTransformer(config).transform();
+
+      expect(await fs.readFile(filePath, 'utf8')).toContain(
+        "<span>{t('{{count}} files selected', { count })}</span>"
+      );
+      expect(
+        await fs.readJson(path.join(tmpDir, 'locales', 'en.json'))
+      ).toEqual({
+        '{{count}} files selected_one': '{{count}} file selected',
+        '{{count}} files selected_other': '{{count}} files selected',
+      });
+    });
+  });
+
+  describe('rich text', () => {
+    it('should rewrite text with inline elements to <Trans>', async () => {
+      const filePath = await writeComponent(
+        'Signup.tsx',
+        `import React from 'react';
+
+export function Signup() {
+  return (
+    <p>
+      By signing up you agree to our <a href="/tos">Terms</a> and{' '}
+      <strong>Privacy Policy</strong>
+    </p>
+  );
+}
+`
+      );
+      config.transformation.extractRichText = true;
+
+      const result = await new I18nTransformer(config).transform();
+      const output = await fs.readFile(filePath, 'utf8');
+
+      expect(output).toContain(
+        `<Trans i18nKey="By signing up you agree to our <1>Terms</1> and <5>Privacy Policy</5>"`
+      );
+      expect(output).toContain(
+        'components={{ 1: <a href="/tos" />, 5: <strong /> }} />'
+      );
+      expect(output).toMatch(/import \{ Trans \} from ['"]react-i18next['"];/);
+      expect(output).not.toContain('useTranslation');
+      expect(result.stats.hooksAdded).toBe(0);
+    });
+  });
+
+  describe('module strings', () => {
+    it('should turn rendered constant properties into key references', async () => {
+      const filePath = await writeComponent(
+        'Nav.tsx',
+        `const NAV = [
+  { label: 'Dashboard', href: '/' },
+  { label: 'Account settings', href: '/settings' },
+];
+
+const LABELS = { heading: 'Main menu' };
+
+const ROUTES = [{ label: 'Reports', path: '/reports' }];
+
+export function Nav() {
+  return (
+    <nav>
+      <h2>{LABELS.heading}</h2>
+      {NAV.map((item) => (
+        <a key={item.href} href={item.href} title={item.label}>
+          {item.label}
+        </a>
+      ))}
+      <Menu routes={ROUTES} />
+    </nav>
+  );
+}
+`
+      );
+      config.transformation.extractModuleStrings = true;
+
+      await new I18nTransformer(config).transform();
+      const output = await fs.readFile(filePath, 'utf8');
+
+      expect(output).toContain(`const NAV = [
+  { labelKey: 'Dashboard', href: '/' },
+  { labelKey: 'Account settings', href: '/settings' },
+];`);
+      expect(output).toContain("const LABELS = { headingKey: 'Main menu' };");
+      expect(output).toContain('<h2>{t(LABELS.headingKey)}</h2>');
+      expect(output).toContain('title={t(item.labelKey)}');
+      expect(output).toContain('{t(item.labelKey)}\n');
+      // Passed around as a whole, so its consumers may need the label
+      expect(output).toContain("[{ label: 'Reports', path: '/reports' }]");
+      expect(
+        await fs.readJson(path.join(tmpDir, 'locales', 'en.json'))
+      ).toEqual({
+        'Account settings': 'Account settings',
+        Dashboard: 'Dashboard',
+        'Main menu': 'Main menu',
+      });
+    });
+  });
+
+  describe('string literals', () => {
+    it('should rewrite strings passed to allow-listed calls', async () => {
+      const filePath = await writeComponent(
+        'Editor.tsx',
+        `import { toast } from 'react-hot-toast';
+
+const DEFAULT_STATUS = useState('Outside component');
+
+export const Editor = ({ onDelete }: Props) => {
+  const [title, setTitle] = useState('Untitled');
+  const [mode] = useState('');
+
+  const remove = () => {
+    if (!confirm('Delete this item?')) return;
+    toast.error('Could not save your changes', { description: 'Try again later' });
+    throw new Error('Invalid email');
+  };
+
+  console.log('Rendering editor');
+  return <button onClick={remove}>{title}</button>;
+};
+`
+      );
+      config.transformation.extractStringLiterals = true;
+
+      const result = await new I18nTransformer(config).transform();
+      const output = await fs.readFile(filePath, 'utf8');
+
+      expect(output).toContain("useState(t('Untitled'))");
+      expect(output).toContain("useState('')");
+      expect(output).toContain("useState('Outside component')");
+      expect(output).toContain("confirm(t('Delete this item?'))");
+      expect(output).toContain(
+        "toast.error(t('Could not save your changes'), { description: t('Try again later') })"
+      );
+      expect(output).toContain("new Error(t('Invalid email'))");
+      expect(output).toContain("console.log('Rendering editor')");
+      expect(result.stats.hooksAdded).toBe(1);
+    });
+
+    it('should be off by default', async () => {
+      const source = `export function Notice() {
+  alert('Saved successfully');
+  return null;
+}
+`;
+      const filePath = await writeComponent('Notice.tsx', source);
+
+      await new I18nTransformer(config).transform();
+
+      expect(await fs.readFile(filePath, 'utf8')).toBe(source);
+    });
+  });
+
+  describe('namespaced keys', () => {
+    it('should key the same text per component and role', async () => {
+      const paymentPath = await writeComponent(
+        'checkout/PaymentForm.tsx',
+        `export function PaymentForm() {
+  return <form><button type="submit">Confirm order</button><p>Confirm order</p></form>;
+}
+`
+      );
+      await writeComponent(
+        'profile/ProfileForm.tsx',
+        `export function ProfileForm() {
+  return <button type="submit">Confirm order</button>;
+}
+`
+      );
+      config.format = { ...config.format, keyStrategy: 'namespaced' };
+
+      const result = await new I18nTransformer(config).transform();
+
+      expect(await fs.readFile(paymentPath, 'utf8')).toContain(
+        "<button type=\"submit\">{t('checkout.PaymentForm.button.confirmOrder')}</button><p>{t('checkout.PaymentForm.text.confirmOrder')}</p>"
+      );
+      expect(
+        await fs.readJson(path.join(tmpDir, 'locales', 'en.json'))
+      ).toEqual({
+        'checkout.PaymentForm.button.confirmOrder': 'Confirm order',
+        'checkout.PaymentForm.text.confirmOrder': 'Confirm order',
+        'profile.ProfileForm.button.confirmOrder': 'Confirm order',
+      });
+      // Text → first key, as before; every key is listed in keyTexts
+      expect(result.translationKeys.get('Confirm order')).toBe(
+        'checkout.PaymentForm.button.confirmOrder'
+      );
+      expect(result.keyTexts.size).toBe(3);
+    });
+  });
+
+  describe('nested locale files', () => {
+    it('should nest keys and merge existing nested translations', async () => {
+      await writeComponent(
+        'settings/Privacy.tsx',
+        `export function Privacy() {
+  return <h1>Privacy settings</h1>;
+}
+`
+      );
+      await fs.outputJson(path.join(tmpDir, 'locales', 'es.json'), {
+        common: { greeting: 'Hola' },
+      });
+      config.format = {
+        ...config.format,
+        keyStrategy: 'namespaced',
+        structure: 'nested',
+      };
+
+      await new I18nTransformer(config).transform();
+
+      expect(
+        await fs.readJson(path.join(tmpDir, 'locales', 'en.json'))
+      ).toEqual({
+        settings: {
+          Privacy: { text: { privacySettings: 'Privacy settings' } },
+        },
+      });
+      expect(
+        await fs.readJson(path.join(tmpDir, 'locales', 'es.json'))
+      ).toEqual({
+        common: { greeting: 'Hola' },
+        settings: { Privacy: { text: { privacySettings: '' } } },
+      });
+    });
+  });
+
+  describe('namespace files', () => {
+    it('should write one file per namespace and load it in the hook', async () => {
+      const invoicePath = await writeComponent(
+        'features/billing/Invoices.tsx',
+        `export function Invoices() {
+  return (
+    <div>
+      <h1>Your invoices</h1>
+      <p>Welcome back</p>
+    </div>
+  );
+}
+`
+      );
+      await writeComponent(
+        'layout/Header.tsx',
+        `export function Header() {
+  return <h1>Welcome back</h1>;
+}
+`
+      );
+      await fs.outputJson(path.join(tmpDir, 'locales', 'es', 'billing.json'), {
+        'Your invoices': 'Tus facturas',
+      });
+      config.format = {
+        ...config.format,
+        namespaces: {
+          [`${tmpDir.replace(/\\/g, '/')}/src/features/billing/**`]: 'billing',
+        },
+      };
+
+      await new I18nTransformer(config).transform();
+
+      const invoices = await fs.readFile(invoicePath, 'utf8');
+      expect(invoices).toContain("const { t } = useTranslation('billing');");
+      expect(
+        await fs.readJson(path.join(tmpDir, 'locales', 'en', 'billing.json'))
+      ).toEqual({
+        'Welcome back': 'Welcome back',
+        'Your invoices': 'Your invoices',
+      });
+      expect(
+        await fs.readJson(path.join(tmpDir, 'locales', 'es', 'billing.json'))
+      ).toEqual({ 'Welcome back': '', 'Your invoices': 'Tus facturas' });
+      expect(
+        await fs.readJson(path.join(tmpDir, 'locales', 'en', 'common.json'))
+      ).toEqual({ 'Welcome back': 'Welcome back' });
+      expect(await fs.pathExists(path.join(tmpDir, 'locales', 'en.json'))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('translation memory', () => {
+    it('should reuse translations of the same text and suggest close ones', async () => {
+      await writeComponent(
+        'Settings.tsx',
+        `export function Settings() {
+  return (
+    <div>
+      <button>Save changes</button>
+      <button>Delete my account</button>
+    </div>
+  );
+}
+`
+      );
+      await fs.outputJson(path.join(tmpDir, 'locales', 'en.json'), {
+        'settings.save': 'Save changes',
+        'settings.delete': 'Delete account',
+      });
+      await fs.outputJson(path.join(tmpDir, 'locales', 'es.json'), {
+        'settings.save': 'Guardar cambios',
+        'settings.delete': 'Eliminar cuenta',
+      });
+      const reviewFile = path.join(tmpDir, 'review.json');
+      config.format = { ...config.format, keyStrategy: 'namespaced' };
+      config.translation = { ...config.translation, reviewFile };
+
+      await new I18nTransformer(config).transform();
+
+      const es = await fs.readJson(path.join(tmpDir, 'locales', 'es.json'));
+      expect(es['Settings.button.saveChanges']).toBe('Guardar cambios');
+      expect(es['Settings.button.deleteMyAccount']).toBe('');
+      expect(await fs.readJson(reviewFile)).toEqual({
+        es: {
+          'Settings.button.deleteMyAccount': {
+            source: 'Delete my account',
+            match: 'Delete account',
+            suggestion: 'Eliminar cuenta',
+            similarity: 0.82,
+          },
+        },
+      });
+    });
+  });
+
+  describe('pseudo locale', () => {
+    it('should fill the pseudo language from the source texts', async () => {
+      await writeComponent(
+        'Settings.tsx',
+        `export function Settings({ name }: Props) {
+  return (
+    <div>
+      <h1>Settings</h1>
+      <p>Hello {name}</p>
+    </div>
+  );
+}
+`
+      );
+      await fs.outputJson(path.join(tmpDir, 'locales', 'en-XA.json'), {
+        Removed: '[Ŕéṁöṽéð ~~~]',
+      });
+      config.pseudoLanguage = 'en-XA';
+
+      await new I18nTransformer(config).transform();
+
+      expect(
+        await fs.readJson(path.join(tmpDir, 'locales', 'en-XA.json'))
+      ).toEqual({
+        'Hello {{name}}': '[Ĥéļļö {{name}} ~~]',
+        Settings: '[Šéţţîñĝš ~~~]',
+      });
+    });
+  });
+
+  describe('incremental runs', () => {
+    it('should skip files unchanged since the cached run', async () => {
+      await writeComponent(
+        'Header.tsx',
+        `export function Header() {
+  return <h1>Welcome back</h1>;
+}
+`
+      );
+      const footerPath = await writeComponent(
+        'Footer.tsx',
+        `export function Footer() {
+  return <p>All rights reserved</p>;
+}
+`
+      );
+      const cacheFile = path.join(tmpDir, '.i18ner-cache.json');
+      config.advanced = { ...config.advanced, incremental: true, cacheFile };
+
+      const first = await new I18nTransformer(config).transform();
+      expect(first.stats.filesProcessed).toBe(2);
+
+      await fs.appendFile(
+        footerPath,
+        `export function Note() {
+  return <p>Made with care</p>;
+}
+`
+      );
+      const second = await new I18nTransformer(config).transform();
+
+      expect(second.stats.filesProcessed).toBe(1);
+      expect(
+        await fs.readJson(path.join(tmpDir, 'locales', 'en.json'))
+      ).toEqual({
+        'All rights reserved': 'All rights reserved',
+        'Made with care': 'Made with care',
+        'Welcome back': 'Welcome back',
+      });
+      const cache = await fs.readJson(cacheFile);
+      expect(
+        cache.files[
+          path.relative(process.cwd(), footerPath).replace(/\\/g, '/')
+        ].keys
+      ).toEqual(['Made with care']);
+    });
+  });
+
+  describe('parallel runs', () => {
+    it('should assign colliding keys as a serial run does', async () => {
+      const files: Record<string, string> = {
+        'Cart.tsx': `export function Cart() {
+  return <button>Confirm order</button>;
+}
+`,
+        'Checkout.tsx': `export function Checkout() {
+  return <div><h1>Confirm order!</h1><p>Confirm order</p></div>;
+}
+`,
+        'Summary.tsx': `export function Summary() {
+  return <p>Confirm order!</p>;
+}
+`,
+      };
+      config.format = { ...config.format, keyStrategy: 'path' };
+
+      const run = async (workers: number) => {
+        await fs.remove(tmpDir);
+        for (const [name, content] of Object.entries(files)) {
+          await writeComponent(name, content);
+        }
+        config.advanced = { ...config.advanced, workers };
+        const result = await new I18nTransformer(config).transform();
+        const sources: Record<string, string> = {};
+        for (const name of Object.keys(files)) {
+          sources[name] = await fs.readFile(
+            path.join(tmpDir, 'src', name),
+            'utf8'
+          );
+        }
+        return {
+          processed: result.stats.filesProcessed,
+          locale: await fs.readJson(path.join(tmpDir, 'locales', 'en.json')),
+          sources,
+        };
+      };
+
+      const serial = await run(0);
+      const parallel = await run(2);
+
+      expect(parallel).toEqual(serial);
+      expect(parallel.processed).toBe(3);
+      expect(parallel.locale).toEqual({
+        confirm_order: 'Confirm order',
+        confirm_order_2: 'Confirm order!',
+      });
+      expect(parallel.sources['Summary.tsx']).toContain(
+        "<p>{t('confirm_order_2')}</p>"
+      );
+    });
+  });
+
+  describe('extract', () => {
+    it('should return extractions without writing any file', async () => {
+      const source = `export function Banner() {
+  return <p title="Announcement">Free shipping this week</p>;
+}
+`;
+      const filePath = await writeComponent('Banner.tsx', source);
+
+      const extractions = await new I18nTransformer(config).extract();
+
+      expect(extractions.map((e) => [e.text, e.type, e.line])).toEqual([
+        ['Announcement', 'title', 2],
+        ['Free shipping this week', 'jsx-text', 2],
+      ]);
+      expect(await fs.readFile(filePath, 'utf8')).toBe(source);
+      expect(await fs.pathExists(config.outputDir)).toBe(false);
+    });
+  });
+
+  describe('dry run', () => {
+    it('should return file changes instead of writing them', async () => {
+      const source = `export function Empty() {
+  return <p>Nothing here yet</p>;
+}
+`;
+      const filePath = await writeComponent('Empty.tsx', source);
+      config.advanced.dryRun = true;
+
+      const result = await new I18nTransformer(config).transform();
+
+      expect(await fs.readFile(filePath, 'utf8')).toBe(source);
+      expect(await fs.pathExists(config.outputDir)).toBe(false);
+      expect(result.fileChanges!.map((c) => path.basename(c.filePath))).toEqual(
+        ['Empty.tsx', 'en.json', 'es.json']
+      );
+      expect(result.fileChanges![0]).toMatchObject({
+        before: source,
+        after: expect.stringContaining("<p>{t('Nothing here yet')}</p>"),
+      });
+      expect(JSON.parse(result.fileChanges![1].after)).toEqual({
+        'Nothing here yet': 'Nothing here yet',
+      });
+    });
+  });
+
+  describe('getExtractedTexts', () => {
+    it('should report the position and type of each text', async () => {
+      await writeComponent(
+        'Form.tsx',
+        `export function Form() {
+  return (
+    <form>
+      <button type="submit">Save changes</button>
+    </form>
+  );
+}
+`
+      );
+
+      const transformer = new I18nTransformer(config);
+      await transformer.transform();
+
+      expect(transformer.getExtractedTexts()).toEqual([
+        expect.objectContaining({
+          text: 'Save changes',
+          key: 'Save changes',
+          type: 'button',
+          line: 4,
+          column: 29,
+        }),
+      ]);
+    });
+  });
+});
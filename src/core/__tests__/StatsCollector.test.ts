@@ -0,0 +1,89 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { StatsCollector } from '../StatsCollector';
+import { ConfigManager } from '../ConfigManager';
+import { I18nConfig } from '../../types';
+
+describe('StatsCollector', () => {
+  let tmpDir: string;
+  let config: I18nConfig;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'));
+    config = {
+      ...ConfigManager.getInstance().getConfig(),
+      srcDir: path.join(tmpDir, 'src'),
+      outputDir: path.join(tmpDir, 'locales'),
+      targetLanguages: ['es', 'fr'],
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should report coverage, adoption and remaining strings', async () => {
+    await fs.outputFile(
+      path.join(tmpDir, 'src', 'Done.tsx'),
+      `import { useTranslation } from 'react-i18next';
+
+export function Done() {
+  const { t } = useTranslation();
+  return <p>{t('welcome')}</p>;
+}
+`
+    );
+    await fs.outputFile(
+      path.join(tmpDir, 'src', 'Todo.tsx'),
+      `export function Todo() {
+  return <p title="Pending work">Still hard-coded</p>;
+}
+`
+    );
+    await fs.outputJson(path.join(tmpDir, 'locales', 'en.json'), {
+      welcome: 'Welcome',
+      goodbye: 'Goodbye',
+    });
+    await fs.outputJson(path.join(tmpDir, 'locales', 'es.json'), {
+      welcome: 'Bienvenido',
+      goodbye: '',
+    });
+
+    const stats = await new StatsCollector(config).collect();
+
+    expect(stats.sourceKeys).toBe(2);
+    expect(stats.coverage).toEqual([
+      { language: 'es', translated: 1, total: 2, percentage: 50 },
+      { language: 'fr', translated: 0, total: 2, percentage: 0 },
+    ]);
+    expect(stats.components).toEqual({ total: 2, usingTranslation: 1 });
+    expect(stats.hardcodedStrings).toBe(2);
+    expect(
+      stats.files.map((file) => [
+        file.component,
+        file.hardcodedStrings.map((e) => e.text),
+      ])
+    ).toEqual([
+      ['Done', []],
+      ['Todo', ['Pending work', 'Still hard-coded']],
+    ]);
+  });
+
+  it('should keep progress logs quiet and restore console.log', async () => {
+    await fs.outputJson(path.join(tmpDir, 'locales', 'en.json'), {
+      welcome: 'Welcome',
+    });
+    const log = console.log as jest.Mock;
+    log.mockClear();
+
+    await new StatsCollector(config, { quiet: true }).collect();
+    expect(log).not.toHaveBeenCalled();
+    expect(console.log).toBe(log);
+
+    await new StatsCollector(config).collect();
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('📚 Loaded'));
+  });
+});
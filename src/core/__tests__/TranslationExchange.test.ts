@@ -0,0 +1,215 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { TranslationExchange } from '../TranslationExchange';
+import { ConfigManager } from '../ConfigManager';
+import { I18nConfig } from '../../types';
+
+describe('TranslationExchange', () => {
+  let tmpDir: string;
+  let config: I18nConfig;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'));
+    config = {
+      ...ConfigManager.getInstance().getConfig(),
+      srcDir: path.join(tmpDir, 'src'),
+      outputDir: path.join(tmpDir, 'locales'),
+      targetLanguages: ['es'],
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await fs.outputFile(
+      path.join(tmpDir, 'src', 'Inbox.tsx'),
+      `export function Inbox() {
+  return <h1>Your messages</h1>;
+}
+`
+    );
+    await fs.outputFile(
+      path.join(tmpDir, 'src', 'Files.tsx'),
+      `export function Files({ count }: { count: number }) {
+  const { t } = useTranslation();
+  return <p title={t('Your messages')}>{t(\`files\`, { count })}</p>;
+}
+// t('Your messages') in a comment is no usage
+export const hint = "nor is t('files') in a string";
+`
+    );
+    await fs.outputJson(path.join(tmpDir, 'locales', 'en.json'), {
+      'Your messages': 'Your messages',
+      files_one: 'One file',
+      files_other: '{{count}} files',
+    });
+    await fs.outputJson(path.join(tmpDir, 'locales', 'es.json'), {
+      'Your messages': 'Tus mensajes',
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should export a template and a PO file per language', async () => {
+    const outputDir = path.join(tmpDir, 'translations');
+
+    const files = await new TranslationExchange(config).export('po', outputDir);
+
+    expect(files).toEqual([
+      path.join(outputDir, 'messages.pot'),
+      path.join(outputDir, 'es.po'),
+    ]);
+    const [filesSite, inboxSite] = ['Files.tsx', 'Inbox.tsx'].map(
+      (file) =>
+        `#: ${path
+          .relative(process.cwd(), path.join(tmpDir, 'src', file))
+          .replace(/\\/g, '/')}`
+    );
+    const reference = `${filesSite}:3\n${inboxSite}:2`;
+    const template = await fs.readFile(files[0], 'utf8');
+    expect(template).toContain(
+      `${reference}\nmsgid "Your messages"\nmsgstr ""`
+    );
+    const es = await fs.readFile(files[1], 'utf8');
+    expect(es).toContain(
+      `${reference}\nmsgid "Your messages"\nmsgstr "Tus mensajes"`
+    );
+    expect(es).toContain(
+      `${filesSite}:3\nmsgctxt "files_many"\nmsgid "{{count}} files"`
+    );
+    expect(template).not.toMatch(/Files\.tsx:[56]/);
+  });
+
+  it('should merge translated entries into the locale file', async () => {
+    const poFile = path.join(tmpDir, 'es.po');
+    await fs.outputFile(
+      poFile,
+      `msgid ""
+msgstr ""
+"Language: es\\n"
+
+msgctxt "files_one"
+msgid "One file"
+msgstr "Un archivo"
+
+msgctxt "files_other"
+msgid "{{count}} files"
+msgstr ""
+
+#, fuzzy
+msgid "Your messages"
+msgstr "Mensajes"
+
+msgid "Gone"
+msgstr "Ido"
+`
+    );
+
+    const [result] = await new TranslationExchange(config).import([poFile]);
+
+    expect(result).toEqual({
+      filePath: poFile,
+      language: 'es',
+      added: ['files_one'],
+      changed: [],
+      skipped: ['Gone'],
+      refused: [],
+    });
+    expect(await fs.readJson(path.join(tmpDir, 'locales', 'es.json'))).toEqual({
+      'Your messages': 'Tus mensajes',
+      files_one: 'Un archivo',
+    });
+  });
+
+  it('should round-trip XLIFF 2.0 and refuse outdated sources', async () => {
+    const outputDir = path.join(tmpDir, 'translations');
+    const [xlfFile] = await new TranslationExchange(config).export(
+      'xliff2',
+      outputDir
+    );
+
+    const exported = await fs.readFile(xlfFile, 'utf8');
+    expect(exported).toContain('trgLang="es"');
+    expect(exported).toMatch(
+      /<unit id="u\d+" name="Your messages">\s*<notes>\s*<note>[^<]*Files\.tsx:3 \(title\)<\/note>\s*<note>[^<]*Inbox\.tsx:2 \(jsx-text\)<\/note>/
+    );
+    expect(exported).toMatch(
+      /<unit id="u\d+" name="files_one">\s*<notes>\s*<note>Plural form [^<]*<\/note>\s*<note>[^<]*Files\.tsx:3 \(jsx-text\)<\/note>/
+    );
+
+    await fs.writeFile(
+      xlfFile,
+      exported
+        .replace('<target>Tus mensajes</target>', '<target>Mensajes</target>')
+        .replace(
+          /<segment state="initial">\s*<source>One file<\/source>\s*<target><\/target>/,
+          '<segment state="translated"><source>A file</source><target>Un archivo</target>'
+        )
+    );
+    const [result] = await new TranslationExchange(config).import([xlfFile]);
+
+    expect(result.changed).toEqual(['Your messages']);
+    expect(result.refused).toEqual(['files_one']);
+    expect(await fs.readJson(path.join(tmpDir, 'locales', 'es.json'))).toEqual({
+      'Your messages': 'Mensajes',
+    });
+  });
+
+  it('should round-trip a spreadsheet with a column per language', async () => {
+    config.targetLanguages = ['es', 'fr'];
+    const outputDir = path.join(tmpDir, 'translations');
+    const [csvFile] = await new TranslationExchange(config).export(
+      'csv',
+      outputDir
+    );
+
+    const exported = await fs.readFile(csvFile, 'utf8');
+    const [header, ...rows] = exported.trimEnd().split('\n');
+    expect(header).toBe('\uFEFFkey,en,es,fr,context');
+    expect(rows.slice(1)).toEqual([
+      expect.stringMatching(/^files_many,{{count}} files,,,\S*Files\.tsx:3/),
+      expect.stringMatching(/^files_one,One file,,,\S*Files\.tsx:3/),
+      expect.stringMatching(/^files_other,{{count}} files,,,\S*Files\.tsx:3/),
+    ]);
+    expect(rows[0]).toMatch(
+      /^Your messages,Your messages,Tus mensajes,,\S*Files\.tsx:3 \(title\); \S*Inbox\.tsx:2 \(jsx-text\)$/
+    );
+
+    await fs.writeFile(
+      csvFile,
+      `key,en,es,fr
+Your messages,Your messages,Mis mensajes,Vos messages
+files_one,One file,"Un ""archivo""",
+Gone,Gone,Ido,Parti
+`
+    );
+    const results = await new TranslationExchange(config).import([csvFile]);
+
+    expect(
+      results.map(({ language, added, changed, skipped }) => ({
+        language,
+        added,
+        changed,
+        skipped,
+      }))
+    ).toEqual([
+      {
+        language: 'es',
+        added: ['files_one'],
+        changed: ['Your messages'],
+        skipped: ['Gone'],
+      },
+      {
+        language: 'fr',
+        added: ['Your messages'],
+        changed: [],
+        skipped: ['Gone'],
+      },
+    ]);
+    expect(await fs.readJson(path.join(tmpDir, 'locales', 'es.json'))).toEqual({
+      'Your messages': 'Mis mensajes',
+      files_one: 'Un "archivo"',
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { Translator } from '../Translator';
+import { ConfigManager } from '../ConfigManager';
+import { I18nConfig, TranslationProvider } from '../../types';
+
+describe('Translator', () => {
+  let tmpDir: string;
+  let config: I18nConfig;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'));
+    const defaults = ConfigManager.getInstance().getConfig();
+    config = {
+      ...defaults,
+      outputDir: path.join(tmpDir, 'locales'),
+      targetLanguages: ['es'],
+      translation: {
+        ...defaults.translation,
+        dictionaryPath: path.join(tmpDir, 'dictionary.json'),
+      },
+    };
+
+    await fs.outputJson(path.join(tmpDir, 'locales', 'en.json'), {
+      'Save changes': 'Save changes',
+      greeting: 'Hello {{name}}',
+      terms: 'Accept the <1>terms</1>',
+      Cancel: 'Cancel',
+    });
+    await fs.outputJson(path.join(tmpDir, 'locales', 'es.json'), {
+      'Save changes': '',
+      Cancel: 'Anular',
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  it('should fill only empty values from the dictionary', async () => {
+    await fs.outputJson(path.join(tmpDir, 'dictionary.json'), {
+      es: {
+        'Save changes': 'Guardar cambios',
+        'Hello {{name}}': 'Hola {{name}}',
+        Cancel: 'Cancelar',
+      },
+    });
+
+    const [result] = await new Translator(config).translate();
+
+    expect(result).toEqual({
+      language: 'es',
+      filePath: path.join(tmpDir, 'locales', 'es.json'),
+      translated: 2,
+      untranslated: ['terms'],
+      rejected: [],
+    });
+    expect(
+      await fs.readJson(path.join(tmpDir, 'locales', 'es.json'))
+    ).toMatchObject({
+      'Save changes': 'Guardar cambios',
+      greeting: 'Hola {{name}}',
+      Cancel: 'Anular',
+    });
+  });
+
+  it('should reject translations that change placeholders or tags', async () => {
+    const provider: TranslationProvider = {
+      name: 'broken',
+      translateBatch: jest.fn(async (texts: string[]) =>
+        texts.map((text) =>
+          text.replace('{{name}}', '{{nombre}}').replace('<1>', '<2>')
+        )
+      ),
+    };
+
+    const [result] = await new Translator(config, provider).translate();
+
+    expect(provider.translateBatch).toHaveBeenCalledWith(
+      ['Save changes', 'Hello {{name}}', 'Accept the <1>terms</1>'],
+      'en',
+      'es'
+    );
+    expect(result.translated).toBe(1);
+    expect(result.rejected).toEqual(['greeting', 'terms']);
+  });
+
+  it('should load a provider module by path', async () => {
+    const modulePath = path.join(tmpDir, 'upper.js');
+    await fs.outputFile(
+      modulePath,
+      `module.exports = class {
+  constructor() { this.name = 'upper'; }
+  async translateBatch(texts) { return texts.map((t) => t.toUpperCase()); }
+};
+`
+    );
+
+    const provider = await Translator.createProvider(modulePath, config);
+
+    expect(provider.name).toBe('upper');
+    await expect(
+      Translator.createProvider('nonexistent', config)
+    ).rejects.toThrow('Unknown translation provider "nonexistent"');
+  });
+});
@@ -0,0 +1,88 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { UniversalTransformer } from '../UniversalTransformer';
+import { ConfigManager } from '../ConfigManager';
+import { I18nConfig } from '../../types';
+
+describe('UniversalTransformer', () => {
+  let tmpDir: string;
+  let config: I18nConfig;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'));
+    const defaults = ConfigManager.getInstance().getConfig();
+    config = {
+      ...defaults,
+      srcDir: path.join(tmpDir, 'src'),
+      outputDir: path.join(tmpDir, 'locales'),
+      transformation: { ...defaults.transformation, extractRichText: true },
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await fs.outputFile(
+      path.join(tmpDir, 'src', 'Terms.jsx'),
+      `export function Terms() {
+  return <p>Read our <a href="/tos">Terms</a></p>;
+}
+`
+    );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should extract with the requested transformer', async () => {
+    const filePath = path.join(tmpDir, 'src', 'Terms.jsx');
+    const types = async (transformerType: 'typescript' | 'javascript') => {
+      const sources = new UniversalTransformer({
+        ...config,
+        advanced: { ...config.advanced, transformerType },
+      });
+      return {
+        all: (await sources.extract()).map(({ type }) => type),
+        file: (await sources.extractFile(filePath)).map(({ type }) => type),
+      };
+    };
+
+    // Only the TypeScript transformer turns inline elements into <Trans>
+    expect(await types('typescript')).toEqual({
+      all: ['rich-text'],
+      file: ['rich-text'],
+    });
+    expect(await types('javascript')).toEqual({
+      all: ['jsx-text', 'jsx-text'],
+      file: ['jsx-text', 'jsx-text'],
+    });
+  });
+
+  it('should key namespaced texts by their enclosing component', async () => {
+    await fs.outputFile(
+      path.join(tmpDir, 'src', 'shop', 'Cart.jsx'),
+      `export const CartItem = ({ item }) => <li>Remove item</li>;
+
+export default function Cart() {
+  return <ul><li>Remove item</li></ul>;
+}
+`
+    );
+    const keys = async (transformerType: 'typescript' | 'javascript') => {
+      const transformer = await new UniversalTransformer({
+        ...config,
+        format: { ...config.format, keyStrategy: 'namespaced' },
+        advanced: { ...config.advanced, transformerType, dryRun: true },
+      }).createTransformer();
+      const { keyTexts } = await transformer.transform();
+      return [...keyTexts.keys()].filter((key) => key.startsWith('shop.'));
+    };
+
+    const expected = [
+      'shop.CartItem.text.removeItem',
+      'shop.Cart.text.removeItem',
+    ];
+    expect(await keys('typescript')).toEqual(expected);
+    expect(await keys('javascript')).toEqual(expected);
+  });
+});
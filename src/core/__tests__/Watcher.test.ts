@@ -0,0 +1,104 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { Watcher } from '../Watcher';
+import { ConfigManager } from '../ConfigManager';
+import { I18nConfig } from '../../types';
+
+describe('Watcher', () => {
+  let tmpDir: string;
+  let config: I18nConfig;
+  let componentPath: string;
+
+  const readLocale = (language: string) =>
+    fs.readJson(path.join(tmpDir, 'locales', `${language}.json`));
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'));
+    const defaults = ConfigManager.getInstance().getConfig();
+    config = {
+      ...defaults,
+      srcDir: path.join(tmpDir, 'src'),
+      outputDir: path.join(tmpDir, 'locales'),
+      targetLanguages: ['es'],
+      advanced: {
+        ...defaults.advanced,
+        transformerType: 'typescript',
+        generateTypeDefinitions: false,
+      },
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    componentPath = path.join(tmpDir, 'src', 'Header.tsx');
+    await fs.outputFile(
+      componentPath,
+      `export function Header() {
+  return <h1>Welcome back</h1>;
+}
+`
+    );
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should report new texts of each save without rewriting', async () => {
+    const watcher = new Watcher(config);
+
+    const first = await watcher.handle(componentPath);
+    expect(first!.fixed).toBe(false);
+    expect(first!.texts.map(({ text, line }) => ({ text, line }))).toEqual([
+      { text: 'Welcome back', line: 2 },
+    ]);
+
+    await fs.outputFile(
+      componentPath,
+      `export function Header() {
+  return (
+    <header>
+      <h1>Welcome back</h1>
+      <button>Sign out</button>
+    </header>
+  );
+}
+`
+    );
+    const second = await watcher.handle(componentPath);
+
+    expect(second!.texts.map(({ text, line }) => ({ text, line }))).toEqual([
+      { text: 'Sign out', line: 5 },
+    ]);
+    expect(await fs.readFile(componentPath, 'utf8')).toContain(
+      '<h1>Welcome back</h1>'
+    );
+    expect(await readLocale('en')).toEqual({
+      'Sign out': 'Sign out',
+      'Welcome back': 'Welcome back',
+    });
+    expect(await readLocale('es')).toEqual({
+      'Sign out': '',
+      'Welcome back': '',
+    });
+  });
+
+  it('should rewrite saved files with fix', async () => {
+    const watcher = new Watcher(config, { fix: true });
+
+    const update = await watcher.handle(componentPath);
+
+    expect(update!.fixed).toBe(true);
+    expect(await fs.readFile(componentPath, 'utf8')).toContain(
+      "<h1>{t('Welcome back')}</h1>"
+    );
+    expect(await readLocale('en')).toEqual({ 'Welcome back': 'Welcome back' });
+  });
+
+  it('should ignore files outside the include globs', async () => {
+    const stylesPath = path.join(tmpDir, 'src', 'styles.css');
+    await fs.outputFile(stylesPath, 'h1 { color: red; }');
+
+    expect(await new Watcher(config).handle(stylesPath)).toBeUndefined();
+  });
+});
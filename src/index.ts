@@ -1,9 +1,19 @@
 // Main library exports
+export { BaseTransformer } from './core/BaseTransformer';
 export { I18nTransformer } from './core/I18nTransformer';
 export { UniversalTransformer } from './core/UniversalTransformer';
 export { ConfigManager } from './core/ConfigManager';
+export { StatsCollector } from './core/StatsCollector';
+export { TranslationExchange } from './core/TranslationExchange';
+export { Translator } from './core/Translator';
+export { Watcher } from './core/Watcher';
+export { BackupManager } from './core/BackupManager';
 export { TextValidator } from './utils/TextValidator';
 export { JavaScriptTransformer } from './utils/JavaScriptTransformer';
+export { LocaleValidator } from './utils/LocaleValidator';
+export { DictionaryProvider } from './utils/DictionaryProvider';
+export { MessageTokens } from './utils/MessageTokens';
+export { PseudoLocalizer } from './utils/PseudoLocalizer';
 
 // Type exports
 export * from './types';
@@ -7,6 +7,7 @@ export interface I18nConfig {
   // Language configuration
   sourceLanguage: string;
   targetLanguages: string[];
+  pseudoLanguage?: string; // e.g. 'en-XA', filled with pseudo-translations
 
   // File patterns
   include: string[];
@@ -20,6 +21,10 @@ export interface I18nConfig {
     extractTooltips: boolean;
     extractAriaLabels: boolean;
     extractPlaceholders: boolean;
+    extractRichText: boolean; // Rewrite text with inline elements to <Trans>
+    extractModuleStrings: boolean; // Module-level constants rendered in JSX
+    extractStringLiterals: boolean; // Strings passed to the callees below
+    stringLiteralCallees: string[]; // e.g. 'toast' also covers toast.error()
   };
 
   // Component detection
@@ -44,9 +49,29 @@ export interface I18nConfig {
   format: {
     indent: number;
     sortKeys: boolean;
-    keyStrategy: 'text' | 'hash' | 'path' | 'custom';
+    keyStrategy: 'text' | 'hash' | 'path' | 'custom' | 'namespaced';
     keyPrefix?: string;
     keySeparator?: string;
+    structure?: 'flat' | 'nested'; // Nested splits keys on keySeparator
+    namespaces?: Record<string, string>; // Source glob → namespace
+    defaultNamespace?: string; // For files no namespace glob matches
+  };
+
+  // Filling empty target values
+  translation: {
+    provider: string; // Built-in provider name or path to a provider module
+    dictionaryPath?: string; // JSON file of the `dictionary` provider
+    batchSize: number;
+    memory: boolean; // Reuse existing translations of the same source text
+    fuzzyThreshold: number; // Similarity (0-1) of suggested near matches
+    reviewFile: string; // Where near matches are listed for review
+  };
+
+  // Git work trees
+  git: {
+    requireClean: boolean; // Refuse to touch files with uncommitted changes
+    branch?: string; // New branch the changes are committed onto
+    commitMessage?: string; // Of that commit; generated from the stats if unset
   };
 
   // Advanced options
@@ -58,6 +83,11 @@ export interface I18nConfig {
     forceJavaScript?: boolean; // Force JavaScript transformer even if TypeScript is detected
     forceTypeScript?: boolean; // Force TypeScript transformer even if not detected
     transformerType?: 'auto' | 'typescript' | 'javascript'; // Explicit transformer selection
+    dryRun?: boolean; // Collect file changes in memory instead of writing them
+    incremental?: boolean; // Skip files unchanged since the cached run
+    cacheFile?: string; // Cache of incremental runs
+    since?: string; // Git ref; only files changed since it are transformed
+    workers?: number; // Worker threads parsing files in parallel (0: serial)
   };
 }
 
@@ -77,9 +107,45 @@ export interface TransformationStats {
 export interface TransformationResult {
   success: boolean;
   stats: TransformationStats;
-  translationKeys: Map<string, string>;
+  translationKeys: Map<string, string>; // Source text → key
+  keyTexts: Map<string, string>; // Key → source text, one entry per key
   modifiedFiles: string[];
   backupPath?: string;
+  commit?: string; // Hash of the commit on `git.branch`
+  fileChanges?: FileChange[]; // Populated in dry-run mode
+}
+
+/** What watch mode found in a saved file */
+export interface WatchUpdate {
+  filePath: string;
+  texts: TextExtraction[]; // Newly found hard-coded texts, or all rewritten ones
+  fixed: boolean; // Whether the texts were rewritten to t() calls
+}
+
+/** A backup of srcDir and outputDir made before a transform */
+export interface BackupInfo {
+  timestamp: string; // Identifies the backup, e.g. for `rollback`
+  path: string;
+  createdAt: string;
+  files?: number; // Files the transform modified, unknown without a manifest
+}
+
+export interface RollbackEntry {
+  filePath: string; // Relative to the working directory
+  action: 'restore' | 'delete'; // Files the transform created are deleted
+  source?: string; // Copy in the backup to restore
+  edited: boolean; // Changed since the transform, so those edits are lost
+}
+
+export interface RollbackPlan {
+  backup: BackupInfo;
+  entries: RollbackEntry[];
+}
+
+export interface FileChange {
+  filePath: string;
+  before: string; // Empty when the file does not exist yet
+  after: string;
 }
 
 export interface LanguageFile {
@@ -97,12 +163,126 @@ export interface TextExtraction {
     | 'button'
     | 'aria-label'
     | 'placeholder'
-    | 'title';
+    | 'title'
+    | 'rich-text'
+    | 'string-literal'
+    | 'module-string';
   filePath: string;
   line: number;
   column: number;
 }
 
+/** Where a text was found, for strategies that build keys from context */
+export interface KeyContext {
+  filePath: string; // Relative to srcDir
+  component?: string;
+  type: TextExtraction['type'];
+}
+
+/** A key lookup made while transforming a file, replayed in parallel runs */
+export interface KeyRequest {
+  text: string;
+  context: KeyContext;
+}
+
+/** One file transformed by a worker thread, applied on the main thread */
+export interface IsolatedTransform {
+  filePath: string;
+  content?: string; // Rewritten source, when it changed
+  requests: KeyRequest[];
+  keys: string[]; // Key used for each request
+  plurals: Record<string, { one: string; other: string }>; // By key
+  extractedTexts: TextExtraction[];
+  componentInfo: ComponentInfo[];
+  stats: TransformationStats;
+  logs: string[]; // Console output, printed in file order
+}
+
+export interface LocaleIssue {
+  language: string;
+  key: string;
+  type: 'missing' | 'empty' | 'orphaned' | 'placeholder-mismatch';
+  message: string;
+}
+
+export interface LocaleFile {
+  namespace?: string; // Only set with `format.namespaces`
+  filePath: string;
+}
+
+export interface LocaleFileReport {
+  language: string;
+  namespace?: string;
+  filePath: string;
+  exists: boolean;
+  totalKeys: number;
+  expectedKeys: number; // Source keys, with plurals expanded for the language
+  issues: LocaleIssue[];
+}
+
+export interface LocaleValidationReport {
+  sourceFile: string;
+  files: LocaleFileReport[];
+  issues: LocaleIssue[];
+}
+
+/** Where the text of a translation unit was extracted */
+export interface SourceReference {
+  filePath: string; // Relative to the project root
+  line: number;
+  type: TextExtraction['type'];
+}
+
+/** Translates texts for the `translate` command, e.g. through an MT API */
+export interface TranslationProvider {
+  name: string;
+  // Translations in input order; an empty string leaves the value empty
+  translateBatch(texts: string[], from: string, to: string): Promise<string[]>;
+}
+
+export interface TranslationFillResult {
+  language: string;
+  filePath: string;
+  translated: number;
+  untranslated: string[]; // Keys the provider had no translation for
+  rejected: string[]; // Keys whose translation broke placeholders or tags
+}
+
+/** A near match from the translation memory, awaiting a translator */
+export interface TranslationSuggestion {
+  source: string; // Text of the new key
+  match: string; // Similar source text that was translated before
+  suggestion: string; // Its translation
+  similarity: number;
+}
+
+/** A locale message as exchanged with translators */
+export interface TranslationUnit {
+  key: string; // `<namespace>:<key>` when locale files are namespaced
+  source: string;
+  target: string;
+  references: SourceReference[];
+  pluralCategory?: string;
+}
+
+/** A translation read back from an exchange file */
+export interface ImportedTranslation {
+  key: string;
+  source?: string; // Source text at export time, when the format keeps it
+  target: string;
+}
+
+export type ExchangeFormat = 'po' | 'xliff' | 'xliff2' | 'csv';
+
+export interface TranslationImportResult {
+  filePath: string;
+  language: string;
+  added: string[]; // Keys translated for the first time
+  changed: string[]; // Keys whose translation was replaced
+  skipped: string[]; // Keys the source locale doesn't have
+  refused: string[]; // Keys whose source text changed since the export
+}
+
 export interface ComponentInfo {
   name: string;
   type: 'function' | 'arrow' | 'class' | 'forwardRef';
@@ -111,6 +291,33 @@ export interface ComponentInfo {
   needsTranslation: boolean;
 }
 
+export interface LanguageCoverage {
+  language: string;
+  translated: number;
+  total: number;
+  percentage: number;
+}
+
+export interface FileI18nStats {
+  filePath: string;
+  component: string;
+  hasUseTranslation: boolean;
+  hardcodedStrings: TextExtraction[];
+}
+
+export interface I18nProjectStats {
+  generatedAt: string;
+  sourceLanguage: string;
+  sourceKeys: number;
+  coverage: LanguageCoverage[];
+  components: {
+    total: number;
+    usingTranslation: number;
+  };
+  hardcodedStrings: number;
+  files: FileI18nStats[];
+}
+
 export interface ValidationRule {
   name: string;
   pattern: RegExp;
@@ -0,0 +1,58 @@
+/**
+ * RFC 4180 CSV as spreadsheets write it: fields with commas, quotes or line
+ * breaks are quoted, and a leading byte order mark is ignored on read
+ */
+export class CsvFormat {
+  public static serialize(rows: (string | number)[][]): string {
+    return (
+      rows.map((row) => row.map(CsvFormat.escape).join(',')).join('\n') + '\n'
+    );
+  }
+
+  public static parse(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    const text = content.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        rows.push([...row, field]);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    // Last row without a trailing line break
+    if (field !== '' || row.length > 0) rows.push([...row, field]);
+
+    return rows;
+  }
+
+  private static escape(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+export default CsvFormat;
@@ -0,0 +1,39 @@
+import * as fs from 'fs-extra';
+import { TranslationProvider } from '../types';
+
+/**
+ * Offline provider backed by a JSON file of known translations per
+ * language, e.g. `{ "es": { "Save changes": "Guardar cambios" } }`. Texts
+ * it doesn't know stay untranslated.
+ */
+export class DictionaryProvider implements TranslationProvider {
+  public readonly name = 'dictionary';
+  private filePath: string;
+  private dictionary?: Record<string, Record<string, string>>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  public async translateBatch(
+    texts: string[],
+    _from: string,
+    to: string
+  ): Promise<string[]> {
+    const dictionary = await this.load();
+    const entries = dictionary[to] || {};
+    return texts.map((text) => entries[text] || '');
+  }
+
+  private async load(): Promise<Record<string, Record<string, string>>> {
+    if (!this.dictionary) {
+      if (!(await fs.pathExists(this.filePath))) {
+        throw new Error(`Dictionary not found: ${this.filePath}`);
+      }
+      this.dictionary = await fs.readJson(this.filePath);
+    }
+    return this.dictionary!;
+  }
+}
+
+export default DictionaryProvider;
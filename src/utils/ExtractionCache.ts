@@ -0,0 +1,89 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { createHash } from 'crypto';
+import { I18nConfig } from '../types';
+
+interface CachedFile {
+  hash: string; // Of the content as last written
+  keys: string[]; // Extracted when the file was last transformed
+}
+
+interface CacheData {
+  fingerprint: string;
+  files: Record<string, CachedFile>; // By path relative to the working directory
+}
+
+/**
+ * Content hashes and translation keys of the files of the last run, for
+ * incremental transforms. The cache is dropped whenever the options that
+ * affect extraction change.
+ */
+export class ExtractionCache {
+  private filePath: string;
+  private fingerprint: string;
+  private files: Record<string, CachedFile> = {};
+
+  constructor(filePath: string, config: I18nConfig) {
+    this.filePath = filePath;
+    this.fingerprint = ExtractionCache.hash(
+      JSON.stringify([
+        config.sourceLanguage,
+        config.transformation,
+        config.components,
+        config.validation,
+        config.format,
+      ])
+    );
+  }
+
+  public async load(): Promise<void> {
+    if (!(await fs.pathExists(this.filePath))) return;
+
+    try {
+      const data: CacheData = await fs.readJson(this.filePath);
+      if (data.fingerprint === this.fingerprint) this.files = data.files;
+    } catch {
+      // A corrupt cache only costs a full run
+    }
+  }
+
+  /** Keys of a file, if its content is unchanged since it was cached */
+  public get(filePath: string, content: string): string[] | undefined {
+    const cached = this.files[this.getId(filePath)];
+    return cached?.hash === ExtractionCache.hash(content)
+      ? cached.keys
+      : undefined;
+  }
+
+  public set(filePath: string, content: string, keys: string[]): void {
+    this.files[this.getId(filePath)] = {
+      hash: ExtractionCache.hash(content),
+      keys,
+    };
+  }
+
+  /** Write the cache, forgetting files that are no longer matched */
+  public async save(matchedFiles: string[]): Promise<void> {
+    const matched = new Set(matchedFiles.map((file) => this.getId(file)));
+    const files: Record<string, CachedFile> = {};
+    Object.keys(this.files)
+      .filter((id) => matched.has(id))
+      .sort()
+      .forEach((id) => {
+        files[id] = this.files[id];
+      });
+
+    const data: CacheData = { fingerprint: this.fingerprint, files };
+    await fs.outputJson(this.filePath, data, { spaces: 2 });
+  }
+
+  private getId(filePath: string): string {
+    return path.relative(process.cwd(), filePath).replace(/\\/g, '/');
+  }
+
+  private static hash(content: string): string {
+    return createHash('sha1').update(content).digest('hex');
+  }
+}
+
+export default ExtractionCache;
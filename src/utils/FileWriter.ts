@@ -0,0 +1,71 @@
+import * as fs from 'fs-extra';
+import { FileChange } from '../types';
+
+/**
+ * Writes transformer output to disk, or in dry-run mode records the
+ * would-be contents so they can be previewed as a diff instead
+ */
+export class FileWriter {
+  private dryRun: boolean;
+  private changes: Map<string, FileChange> = new Map();
+  private originals: Map<string, string | null> = new Map(); // null: created
+
+  constructor(dryRun: boolean = false) {
+    this.dryRun = dryRun;
+  }
+
+  public isDryRun(): boolean {
+    return this.dryRun;
+  }
+
+  public async write(filePath: string, content: string): Promise<void> {
+    if (!this.dryRun) {
+      if (!this.originals.has(filePath)) {
+        this.originals.set(
+          filePath,
+          (await fs.pathExists(filePath))
+            ? await fs.readFile(filePath, 'utf8')
+            : null
+        );
+      }
+      await fs.outputFile(filePath, content, 'utf8');
+      return;
+    }
+
+    // Keep the on-disk original when the same file is written twice
+    const before = this.changes.has(filePath)
+      ? this.changes.get(filePath)!.before
+      : await this.readIfExists(filePath);
+
+    if (before === content) {
+      this.changes.delete(filePath);
+      return;
+    }
+
+    this.changes.set(filePath, { filePath, before, after: content });
+  }
+
+  public async writeJson(
+    filePath: string,
+    data: unknown,
+    indent: number
+  ): Promise<void> {
+    await this.write(filePath, JSON.stringify(data, null, indent) + '\n');
+  }
+
+  public getChanges(): FileChange[] {
+    return [...this.changes.values()];
+  }
+
+  /** Content of each written file before its first write, null if it was new */
+  public getOriginals(): Map<string, string | null> {
+    return this.originals;
+  }
+
+  private async readIfExists(filePath: string): Promise<string> {
+    if (!(await fs.pathExists(filePath))) return '';
+    return fs.readFile(filePath, 'utf8');
+  }
+}
+
+export default FileWriter;
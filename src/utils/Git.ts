@@ -0,0 +1,126 @@
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+
+/**
+ * Thin wrapper around the git CLI for the questions the transformer asks
+ * about the working tree
+ */
+export class Git {
+  /**
+   * Absolute paths of the files that differ from `ref`, counting committed,
+   * uncommitted and untracked changes
+   */
+  public static getChangedFiles(ref: string, cwd = process.cwd()): string[] {
+    const root = Git.run(['rev-parse', '--show-toplevel'], cwd).trim();
+    const changed = Git.run(['diff', '--name-only', ref, '--'], cwd);
+    const untracked = Git.run(
+      ['ls-files', '--others', '--exclude-standard', '--full-name'],
+      cwd
+    );
+
+    return `${changed}\n${untracked}`
+      .split('\n')
+      .filter(Boolean)
+      .map((file) => path.resolve(root, file));
+  }
+
+  /** Top-level directory of the work tree `cwd` is in, if it is in one */
+  public static getRoot(cwd = process.cwd()): string | undefined {
+    try {
+      return Git.run(['rev-parse', '--show-toplevel'], cwd).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Absolute paths of the modified, staged or untracked files in `paths` */
+  public static getUncommittedFiles(
+    paths: string[],
+    cwd = process.cwd()
+  ): string[] {
+    const root = Git.run(['rev-parse', '--show-toplevel'], cwd).trim();
+    const entries = Git.run(
+      ['status', '--porcelain', '-z', '--untracked-files=all', '--', ...paths],
+      cwd
+    ).split('\0');
+
+    const files: string[] = [];
+    for (let i = 0; i < entries.length; i++) {
+      if (!entries[i]) continue;
+      files.push(path.resolve(root, entries[i].slice(3)));
+      // Renames and copies are followed by their original path
+      if (/^[RC]/.test(entries[i])) i++;
+    }
+    return files;
+  }
+
+  /**
+   * Absolute paths of the files in `paths` that git tracks, resolved from
+   * `cwd`; untracked and ignored files are left out
+   */
+  public static getTrackedFiles(
+    paths: string[],
+    cwd = process.cwd()
+  ): string[] {
+    return Git.run(['ls-files', '-z', '--', ...paths], cwd)
+      .split('\0')
+      .filter(Boolean)
+      .map((file) => path.resolve(cwd, file));
+  }
+
+  public static hasBranch(name: string, cwd = process.cwd()): boolean {
+    try {
+      Git.run(['rev-parse', '--verify', '--quiet', `refs/heads/${name}`], cwd);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public static createBranch(name: string, cwd = process.cwd()): void {
+    Git.run(['checkout', '-q', '-b', name], cwd);
+  }
+
+  /** Switch back to the previous checkout and delete branch `name` */
+  public static deleteBranch(name: string, cwd = process.cwd()): void {
+    Git.run(['checkout', '-q', '-'], cwd);
+    Git.run(['branch', '-q', '-D', name], cwd);
+  }
+
+  /**
+   * Commit `files` (added if new) and nothing else that is staged; returns
+   * the abbreviated hash of the commit. A failed commit unstages them again.
+   */
+  public static commit(
+    files: string[],
+    message: string,
+    cwd = process.cwd()
+  ): string {
+    Git.run(['add', '--', ...files], cwd);
+    try {
+      Git.run(['commit', '-q', '-m', message, '--', ...files], cwd);
+    } catch (error) {
+      // Leave the files unstaged, as they were
+      Git.run(['reset', '-q', '--', ...files], cwd);
+      throw error;
+    }
+    return Git.run(['rev-parse', '--short', 'HEAD'], cwd).trim();
+  }
+
+  private static run(args: string[], cwd: string): string {
+    try {
+      return execFileSync('git', args, {
+        cwd,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(
+        `git ${args.join(' ')} failed${stderr ? `: ${stderr}` : ''}`
+      );
+    }
+  }
+}
+
+export default Git;
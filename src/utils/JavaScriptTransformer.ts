@@ -1,595 +1,997 @@
 import * as path from 'path';
 import * as fs from 'fs-extra';
-import * as glob from 'glob';
+import { parse } from '@babel/parser';
+import traverse, { NodePath } from '@babel/traverse';
+import * as t from '@babel/types';
+import MagicString from 'magic-string';
 import {
   I18nConfig,
-  TransformationResult,
-  TransformationStats,
   TextExtraction,
   ComponentInfo,
+  KeyContext,
 } from '../types';
-import { ConfigManager } from '../core/ConfigManager';
-import { TextValidator } from './TextValidator';
+import {
+  BaseTransformer,
+  InterpolationValue,
+  MessagePart,
+  PluralMessage,
+  RewrittenFile,
+  TRANSLATABLE_ATTRIBUTES,
+} from '../core/BaseTransformer';
 
 /**
- * JavaScript/JSX transformer for projects without TypeScript
- * Uses regex-based parsing instead of AST manipulation
+ * The function that has to provide `t` for a piece of JSX: a function
+ * component, or a method of a class component
  */
-export class JavaScriptTransformer {
-  private config: I18nConfig;
-  private validator: TextValidator;
-  private translationKeys: Map<string, string> = new Map();
-  private stats: TransformationStats = {
-    filesProcessed: 0,
-    textsTransformed: 0,
-    importsAdded: 0,
-    hooksAdded: 0,
-    buttonsFixed: 0,
-    attributesTransformed: 0,
-    codeFragmentsFiltered: 0,
-    duplicatesFound: 0,
-    errors: [],
-    warnings: [],
-  };
-  private extractedTexts: TextExtraction[] = [];
-  private componentInfo: ComponentInfo[] = [];
-
-  constructor(config?: I18nConfig) {
-    this.config = config || ConfigManager.getInstance().getConfig();
-    this.validator = new TextValidator(this.config);
-    this.resetStats();
-  }
-
-  private resetStats(): void {
-    this.stats = {
-      filesProcessed: 0,
-      textsTransformed: 0,
-      importsAdded: 0,
-      hooksAdded: 0,
-      buttonsFixed: 0,
-      attributesTransformed: 0,
-      codeFragmentsFiltered: 0,
-      duplicatesFound: 0,
-      errors: [],
-      warnings: [],
-    };
-  }
-
-  public async transform(): Promise<TransformationResult> {
-    try {
-      console.log('🚀 Starting JavaScript/JSX i18n Transformation...\n');
+interface ComponentScope {
+  name: string;
+  fn: NodePath<t.Function>;
+  classComponent?: NodePath<t.Class>;
+}
 
-      // Load existing translations
-      await this.loadExistingTranslations();
+/**
+ * A user-facing string in the JSX. Text runs cover JSX text merged with
+ * simple `{expressions}`, from `path` to `lastPath`, with the expressions
+ * passed to `t()` as interpolation values.
+ */
+interface TranslatableNode {
+  path: NodePath;
+  text: string;
+  type: TextExtraction['type'];
+  scope?: ComponentScope;
+  lastPath?: NodePath;
+  values?: InterpolationValue[];
+  plural?: PluralMessage;
+}
 
-      // Create backup if enabled
-      let backupPath: string | undefined;
-      if (this.config.advanced.createBackup) {
-        backupPath = await this.createBackup();
-      }
+/**
+ * A count-dependent expression such as `{n === 1 ? 'item' : 'items'}` or
+ * `{n + ' files'}`, with the message fragment used for each form
+ */
+interface PluralExpression {
+  count: t.Expression;
+  one: string;
+  other: string;
+}
 
-      // Find and process files
-      const files = await this.findFiles();
-      console.log(`📁 Found ${files.length} JavaScript/JSX files to process\n`);
+/**
+ * JavaScript/JSX transformer for projects without TypeScript
+ * Parses with Babel and applies edits by source position, so everything
+ * outside the rewritten nodes keeps its original formatting
+ */
+export class JavaScriptTransformer extends BaseTransformer {
+  protected readonly type = 'javascript';
+  protected readonly title = 'JavaScript/JSX i18n';
+  protected readonly fileLabel = 'JavaScript/JSX files';
+
+  /**
+   * Collect translatable texts from a single file without modifying it. The
+   * file's component info is recorded for getComponentInfo().
+   */
+  public async extractFile(filePath: string): Promise<TextExtraction[]> {
+    const content = await fs.readFile(filePath, 'utf8');
+    const ast = this.parse(content);
+    const nodes = this.collectTranslatableNodes(ast);
+    this.componentInfo.push(this.analyzeComponent(ast, filePath, nodes));
+    return this.extractTexts(nodes, filePath);
+  }
 
-      // Process each file
-      for (const filePath of files) {
-        await this.transformFile(filePath);
-      }
+  protected createWorkerTransformer(config: I18nConfig): JavaScriptTransformer {
+    return new JavaScriptTransformer(config);
+  }
 
-      // Generate translation files
-      await this.generateTranslationFiles();
+  /** Extraction options that only the TypeScript transformer implements */
+  protected warnUnsupportedOptions(): void {
+    const options = [
+      'extractRichText',
+      'extractModuleStrings',
+      'extractStringLiterals',
+    ] as const;
+    const ignored = options.filter(
+      (option) => this.config.transformation[option]
+    );
 
-      return {
-        success: true,
-        stats: this.stats,
-        translationKeys: this.translationKeys,
-        modifiedFiles: files,
-        backupPath,
-      };
-    } catch (error) {
-      this.stats.errors.push(
-        `Transformation failed: ${error instanceof Error ? error.message : String(error)}`
+    if (ignored.length > 0) {
+      this.stats.warnings.push(
+        `${ignored.join(', ')} ${ignored.length === 1 ? 'is' : 'are'} only supported by the TypeScript transformer and ignored for JavaScript`
       );
-      return {
-        success: false,
-        stats: this.stats,
-        translationKeys: this.translationKeys,
-        modifiedFiles: [],
-      };
     }
   }
 
-  private async loadExistingTranslations(): Promise<void> {
-    const sourceFile = path.join(
-      this.config.outputDir,
-      `${this.config.sourceLanguage}.json`
+  /** Include both JS and JSX files */
+  protected getIncludePatterns(): string[] {
+    const jsPatterns = this.config.include.map((pattern) =>
+      pattern.replace(/\{tsx,jsx\}/, '{js,jsx}').replace(/\.tsx?/, '.js')
     );
+    return this.config.include.concat(jsPatterns);
+  }
 
-    if (await fs.pathExists(sourceFile)) {
-      try {
-        const translations = await fs.readJson(sourceFile);
-        Object.entries(translations).forEach(([key, value]) => {
-          if (
-            typeof value === 'string' &&
-            this.validator.isValidTranslationText(value)
-          ) {
-            this.translationKeys.set(value, key);
-          }
-        });
-        console.log(
-          `📚 Loaded ${this.translationKeys.size} existing translations`
-        );
-      } catch (error) {
-        this.stats.warnings.push(
-          `Could not load existing translations: ${error instanceof Error ? error.message : String(error)}`
-        );
+  protected isSourceFile(filePath: string): boolean {
+    return /\.(js|jsx)$/.test(filePath);
+  }
+
+  protected async rewriteFile(filePath: string): Promise<RewrittenFile> {
+    const content = await fs.readFile(filePath, 'utf8');
+    const relativePath = path.relative(process.cwd(), filePath);
+    const ast = this.parse(content);
+    const output = new MagicString(content);
+
+    // Analyze component info
+    const nodes = this.collectTranslatableNodes(ast);
+    const componentInfo = this.analyzeComponent(ast, filePath, nodes);
+    this.componentInfo.push(componentInfo);
+    const namespace = this.localeFormat.getNamespace(filePath);
+
+    // Extract texts
+    this.extractedTexts.push(...this.extractTexts(nodes, filePath));
+
+    // Transform JSX elements
+    const transformResults = this.transformJSXElements(
+      output,
+      nodes,
+      relativePath,
+      namespace
+    );
+    this.stats.textsTransformed += transformResults.count;
+
+    // Add translation hooks if needed
+    if (this.shouldAddHook(componentInfo)) {
+      const hookResults = this.addTranslationHooks(
+        output,
+        transformResults.scopes,
+        namespace
+      );
+      this.stats.hooksAdded += hookResults.hooksAdded;
+
+      // Add imports if needed
+      if (
+        hookResults.imports.length > 0 &&
+        this.addTranslationImport(output, ast, hookResults.imports)
+      ) {
+        this.stats.importsAdded++;
       }
     }
+
+    return {
+      content: output.toString(),
+      changed: output.hasChanged(),
+      count: transformResults.count,
+    };
   }
 
-  private async createBackup(): Promise<string> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = path.join(this.config.backupDir!, `backup-${timestamp}`);
+  private parse(content: string): t.File {
+    return parse(content, {
+      sourceType: 'module',
+      plugins: ['jsx', 'classProperties', 'decorators-legacy'],
+    });
+  }
 
-    await fs.ensureDir(backupPath);
-    await fs.copy(this.config.srcDir, path.join(backupPath, 'src'));
+  private analyzeComponent(
+    ast: t.File,
+    filePath: string,
+    nodes: TranslatableNode[]
+  ): ComponentInfo {
+    const fileName = path.basename(filePath, path.extname(filePath));
 
-    if (await fs.pathExists(this.config.outputDir)) {
-      await fs.copy(this.config.outputDir, path.join(backupPath, 'locales'));
-    }
+    let componentType: ComponentInfo['type'] = 'function';
+    let componentName = fileName;
 
-    console.log(`💾 Created backup at ${backupPath}`);
-    return backupPath;
-  }
+    // Check for existing useTranslation import
+    const hasUseTranslation = ast.program.body.some(
+      (statement) =>
+        t.isImportDeclaration(statement) &&
+        statement.specifiers.some(
+          (specifier) =>
+            t.isImportSpecifier(specifier) &&
+            t.isIdentifier(specifier.imported, { name: 'useTranslation' })
+        )
+    );
 
-  private async findFiles(): Promise<string[]> {
-    // Include both JS and JSX files
-    const jsPatterns = this.config.include.map((pattern) =>
-      pattern.replace(/\{tsx,jsx\}/, '{js,jsx}').replace(/\.tsx?/, '.js')
+    // Prefer the default export, fall back to the first top-level component
+    const components = this.findTopLevelComponents(ast);
+    const defaultExport = ast.program.body.find(
+      (statement): statement is t.ExportDefaultDeclaration =>
+        t.isExportDefaultDeclaration(statement)
     );
+    const defaultName =
+      defaultExport && t.isIdentifier(defaultExport.declaration)
+        ? defaultExport.declaration.name
+        : undefined;
+    const component =
+      components.find((c) => c.isDefault || c.name === defaultName) ||
+      components[0];
+
+    if (component) {
+      componentName = component.name || fileName;
+      componentType = component.type;
+    }
 
-    const patterns = this.config.include.concat(jsPatterns).map((pattern) => {
-      // Use path.posix for glob patterns (always forward slashes)
-      const normalizedSrcDir = this.config.srcDir.replace(/\\/g, '/');
-      const normalizedPattern = pattern.replace(/\\/g, '/');
-      return path.posix.join(normalizedSrcDir, normalizedPattern);
-    });
+    return {
+      name: componentName,
+      type: componentType,
+      filePath,
+      hasUseTranslation,
+      needsTranslation: nodes.length > 0,
+    };
+  }
 
-    let files: string[] = [];
+  private findTopLevelComponents(ast: t.File): Array<{
+    name?: string;
+    type: ComponentInfo['type'];
+    isDefault: boolean;
+  }> {
+    const components: Array<{
+      name?: string;
+      type: ComponentInfo['type'];
+      isDefault: boolean;
+    }> = [];
+
+    for (const statement of ast.program.body) {
+      const isDefault = t.isExportDefaultDeclaration(statement);
+      const declaration =
+        t.isExportNamedDeclaration(statement) ||
+        t.isExportDefaultDeclaration(statement)
+          ? statement.declaration
+          : statement;
+
+      if (
+        t.isClassDeclaration(declaration) &&
+        this.isClassComponent(declaration)
+      ) {
+        components.push({
+          name: declaration.id?.name,
+          type: 'class',
+          isDefault,
+        });
+      } else if (t.isFunctionDeclaration(declaration)) {
+        const name = declaration.id?.name;
+        if (isDefault || (name && /^[A-Z]/.test(name))) {
+          components.push({ name, type: 'function', isDefault });
+        }
+      } else if (t.isVariableDeclaration(declaration)) {
+        for (const declarator of declaration.declarations) {
+          if (!t.isIdentifier(declarator.id)) continue;
+          if (!/^[A-Z]/.test(declarator.id.name)) continue;
 
-    for (const pattern of patterns) {
-      const matches = glob.sync(pattern, {
-        ignore: this.config.exclude.map((ex) => ex.replace(/\\/g, '/')),
-      });
-      files = files.concat(matches);
+          const init = declarator.init;
+          if (
+            t.isArrowFunctionExpression(init) ||
+            t.isFunctionExpression(init)
+          ) {
+            components.push({
+              name: declarator.id.name,
+              type: 'arrow',
+              isDefault,
+            });
+          } else if (
+            t.isCallExpression(init) &&
+            this.getCalleeName(init) === 'forwardRef'
+          ) {
+            components.push({
+              name: declarator.id.name,
+              type: 'forwardRef',
+              isDefault,
+            });
+          }
+        }
+      }
     }
 
-    // Filter for JS/JSX files only
-    files = files.filter((file) => /\.(js|jsx)$/.test(file));
-
-    // Remove duplicates and sort
-    return [...new Set(files)].sort();
+    return components;
   }
 
-  private async transformFile(filePath: string): Promise<void> {
-    try {
-      let content = await fs.readFile(filePath, 'utf8');
-      const originalContent = content;
-      const relativePath = path.relative(process.cwd(), filePath);
+  /**
+   * Collect the JSX text and attribute nodes that carry user-facing strings,
+   * together with the component each one is rendered by
+   */
+  private collectTranslatableNodes(ast: t.File): TranslatableNode[] {
+    const nodes: TranslatableNode[] = [];
+
+    traverse(ast, {
+      'JSXElement|JSXFragment': (parent) => {
+        if (!this.config.transformation.extractJSXText) return;
+
+        nodes.push(
+          ...this.collectJsxChildren(
+            parent as NodePath<t.JSXElement | t.JSXFragment>
+          )
+        );
+      },
+      JSXAttribute: (attribute) => {
+        if (!this.config.transformation.extractAttributes) return;
+
+        const name = attribute.node.name;
+        if (!t.isJSXIdentifier(name)) return;
 
-      let hasChanges = false;
+        const type = TRANSLATABLE_ATTRIBUTES[name.name];
+        if (!type) return;
 
-      // Analyze component info
-      const componentInfo = this.analyzeComponent(content, filePath);
-      this.componentInfo.push(componentInfo);
+        const text = this.getAttributeStringValue(attribute.node);
+        if (text === undefined) return;
+        if (!this.validator.isValidTranslationText(text)) return;
 
-      // Add imports if needed
-      if (this.shouldAddImport(content)) {
-        content = this.addTranslationImport(content);
-        hasChanges = true;
-        this.stats.importsAdded++;
-      }
+        nodes.push({
+          path: attribute,
+          text: text.trim(),
+          type,
+          scope: this.findComponentScope(attribute),
+        });
+      },
+    });
 
-      // Transform JSX elements
-      const transformResults = this.transformJSXElements(content);
-      if (transformResults.count > 0) {
-        content = transformResults.content;
-        hasChanges = true;
-        this.stats.textsTransformed += transformResults.count;
-      }
+    return nodes.sort((a, b) => a.path.node.start! - b.path.node.start!);
+  }
 
-      // Add translation hooks if needed
-      if (this.shouldAddHook(content, componentInfo)) {
-        content = this.addTranslationHook(content, componentInfo);
-        hasChanges = true;
-        this.stats.hooksAdded++;
-      }
+  /**
+   * Split the children of an element into runs of text and simple
+   * expressions, so `Hello {user.name}, welcome` becomes one message
+   */
+  private collectJsxChildren(
+    parent: NodePath<t.JSXElement | t.JSXFragment>
+  ): TranslatableNode[] {
+    const nodes: TranslatableNode[] = [];
+    const type = this.isButtonElement(parent.node) ? 'button' : 'jsx-text';
+    let run: NodePath[] = [];
+
+    const flush = () => {
+      const node = this.createTextRun(run, type);
+      if (node) nodes.push(node);
+      run = [];
+    };
 
-      // Save changes
-      if (hasChanges) {
-        await fs.writeFile(filePath, content, 'utf8');
-        console.log(
-          `✅ Transformed ${relativePath} (${transformResults.count} texts)`
-        );
+    for (const child of parent.get('children') as NodePath[]) {
+      if (
+        child.isJSXText() ||
+        (child.isJSXExpressionContainer() &&
+          this.isInterpolatable(child.node.expression)) ||
+        this.getPluralExpression(child) !== undefined
+      ) {
+        run.push(child);
+      } else {
+        flush();
       }
-
-      this.stats.filesProcessed++;
-    } catch (error) {
-      this.stats.errors.push(
-        `Error transforming ${filePath}: ${error instanceof Error ? error.message : String(error)}`
-      );
     }
-  }
+    flush();
 
-  private analyzeComponent(content: string, filePath: string): ComponentInfo {
-    const fileName = path.basename(filePath, path.extname(filePath));
+    return nodes;
+  }
 
-    let componentType: ComponentInfo['type'] = 'function';
-    let componentName = fileName;
-    let hasUseTranslation = false;
-    let needsTranslation = false;
+  private createTextRun(
+    run: NodePath[],
+    type: TextExtraction['type']
+  ): TranslatableNode | undefined {
+    const isBlank = (child: NodePath) =>
+      child.isJSXText() && child.node.value.trim() === '';
+
+    // Whitespace at either end belongs to the surrounding layout
+    const children = [...run];
+    while (children.length > 0 && isBlank(children[0])) children.shift();
+    while (children.length > 0 && isBlank(children[children.length - 1])) {
+      children.pop();
+    }
 
-    // Check for existing useTranslation import
-    hasUseTranslation =
-      /import.*useTranslation.*from.*react-i18next/.test(content) ||
-      /import.*useTranslation.*from.*@\//.test(content);
-
-    // Check if translation is needed
-    needsTranslation = this.hasExtractableText(content);
-
-    // Detect component type
-    if (/class\s+\w+\s+extends\s+(React\.)?Component/.test(content)) {
-      componentType = 'class';
-      const classMatch = content.match(/class\s+(\w+)\s+extends/);
-      if (classMatch) componentName = classMatch[1];
-    } else if (/export\s+default\s+function\s+(\w+)/.test(content)) {
-      componentType = 'function';
-      const funcMatch = content.match(/export\s+default\s+function\s+(\w+)/);
-      if (funcMatch) componentName = funcMatch[1];
-    } else if (/const\s+(\w+)\s*=\s*\([^)]*\)\s*=>/.test(content)) {
-      componentType = 'arrow';
-      const arrowMatch = content.match(/const\s+(\w+)\s*=\s*\([^)]*\)\s*=>/);
-      if (arrowMatch) componentName = arrowMatch[1];
+    const parts: MessagePart[] = [];
+    for (const child of children) {
+      const plural = this.getPluralExpression(child);
+
+      if (child.isJSXText()) {
+        parts.push({ kind: 'text', text: child.node.value });
+      } else if (plural) {
+        const { count, one, other } = plural;
+        const expression = this.getExpressionText(count);
+        parts.push({ kind: 'plural', count: expression, one, other });
+      } else if (child.isJSXExpressionContainer()) {
+        const expression = child.node.expression as t.Expression;
+        parts.push({
+          kind: 'value',
+          expression: this.getExpressionText(expression),
+          name: this.getPlaceholderBase(expression),
+        });
+      }
     }
 
+    const message = this.composeMessage(parts);
+    if (!message) return undefined;
+
     return {
-      name: componentName,
-      type: componentType,
-      filePath,
-      hasUseTranslation,
-      needsTranslation,
+      path: children[0],
+      lastPath: children[children.length - 1],
+      type,
+      scope: this.findComponentScope(children[0]),
+      ...message,
     };
   }
 
-  private hasExtractableText(content: string): boolean {
-    // Quick check for potential translatable text
-    const jsxTextPattern = />([^<>{]+)</g;
-    const attributePatterns = [
-      /placeholder=["']([^"']+)["']/g,
-      /title=["']([^"']+)["']/g,
-      /alt=["']([^"']+)["']/g,
-      /aria-label=["']([^"']+)["']/g,
-    ];
-
-    // Check JSX text
-    let match;
-    while ((match = jsxTextPattern.exec(content)) !== null) {
-      if (this.validator.isValidTranslationText(match[1])) {
-        return true;
+  /**
+   * Recognize `{n === 1 ? 'item' : 'items'}` (also `!==` and `1 === n`)
+   * and `{n + ' files'}`, where `n` is a plain reference
+   */
+  private getPluralExpression(child: NodePath): PluralExpression | undefined {
+    if (!child.isJSXExpressionContainer()) return undefined;
+    const expression = child.node.expression;
+
+    if (t.isConditionalExpression(expression)) {
+      const condition = expression.test;
+      const whenTrue = this.getStringValue(expression.consequent);
+      const whenFalse = this.getStringValue(expression.alternate);
+      if (
+        !t.isBinaryExpression(condition) ||
+        whenTrue === undefined ||
+        whenFalse === undefined
+      ) {
+        return undefined;
+      }
+
+      const isOne = (side: t.Node) =>
+        t.isNumericLiteral(side) && side.value === 1;
+      const { left, right } = condition;
+      const count = isOne(right) ? left : isOne(left) ? right : undefined;
+      if (!t.isExpression(count) || !this.isInterpolatable(count)) {
+        return undefined;
       }
+
+      const forms = this.getPluralForms(
+        condition.operator,
+        whenTrue,
+        whenFalse
+      );
+      return forms && { count, ...forms };
     }
 
-    // Check attributes
-    for (const pattern of attributePatterns) {
-      while ((match = pattern.exec(content)) !== null) {
-        if (this.validator.isValidTranslationText(match[1])) {
-          return true;
-        }
+    if (t.isBinaryExpression(expression) && expression.operator === '+') {
+      const count = expression.left;
+      const noun = this.getStringValue(expression.right);
+      if (
+        !t.isExpression(count) ||
+        !this.isInterpolatable(count) ||
+        noun === undefined
+      ) {
+        return undefined;
       }
+
+      const forms = this.getNounPluralForms(noun);
+      return forms && { count, ...forms };
     }
 
-    return false;
+    return undefined;
   }
 
-  private shouldAddImport(content: string): boolean {
-    return (
-      !/import.*useTranslation.*from.*react-i18next/.test(content) &&
-      !/import.*useTranslation.*from.*@\//.test(content) &&
-      this.hasExtractableText(content)
-    );
+  private getStringValue(node: t.Node): string | undefined {
+    if (t.isStringLiteral(node)) return node.value;
+
+    if (t.isTemplateLiteral(node) && node.expressions.length === 0) {
+      return node.quasis[0].value.cooked ?? undefined;
+    }
+
+    return undefined;
   }
 
-  private addTranslationImport(content: string): string {
-    // Find where to insert the import
-    const lines = content.split('\n');
-    let insertIndex = 0;
+  /**
+   * Only plain references such as `count` or `user.name` are inlined into a
+   * message; anything with calls or operators stays outside of it
+   */
+  private isInterpolatable(expression: t.Node): boolean {
+    if (t.isIdentifier(expression)) return true;
 
-    // Find the best position after other imports
-    for (let i = 0; i < lines.length; i++) {
-      if (/^import\s/.test(lines[i].trim())) {
-        insertIndex = i + 1;
-        // Prefer after React-related imports
-        if (lines[i].includes('react') || lines[i].includes('@/')) {
-          insertIndex = i + 1;
-        }
-      }
+    if (
+      (t.isMemberExpression(expression) ||
+        t.isOptionalMemberExpression(expression)) &&
+      !expression.computed &&
+      t.isIdentifier(expression.property)
+    ) {
+      return (
+        t.isThisExpression(expression.object) ||
+        this.isInterpolatable(expression.object)
+      );
     }
 
-    const importStatement = `import { useTranslation } from '${this.config.components.customHookImport || 'react-i18next'}';`;
-    lines.splice(insertIndex, 0, importStatement);
+    return false;
+  }
 
-    return lines.join('\n');
+  /** `user.name` is interpolated as `name`, a plain reference as itself */
+  private getPlaceholderBase(expression: t.Expression): string {
+    return (t.isMemberExpression(expression) ||
+      t.isOptionalMemberExpression(expression)) &&
+      t.isIdentifier(expression.property)
+      ? expression.property.name
+      : this.getExpressionText(expression);
   }
 
-  private shouldAddHook(
-    content: string,
-    componentInfo: ComponentInfo
-  ): boolean {
-    if (!this.config.components.addUseTranslationHook) return false;
-    if (componentInfo.hasUseTranslation) return false;
-    if (!componentInfo.needsTranslation) return false;
+  private getExpressionText(expression: t.Node): string {
+    if (t.isIdentifier(expression)) return expression.name;
+    if (t.isThisExpression(expression)) return 'this';
+
     if (
-      componentInfo.type === 'class' &&
-      !this.config.components.supportClassComponents
-    )
-      return false;
+      (t.isMemberExpression(expression) ||
+        t.isOptionalMemberExpression(expression)) &&
+      t.isIdentifier(expression.property)
+    ) {
+      const separator =
+        t.isOptionalMemberExpression(expression) && expression.optional
+          ? '?.'
+          : '.';
+      return `${this.getExpressionText(expression.object)}${separator}${expression.property.name}`;
+    }
 
-    // Check if hook already exists in content
-    if (/const\s*{\s*t\s*}\s*=\s*useTranslation\(\)/.test(content))
-      return false;
+    return '';
+  }
 
-    return true;
+  private isButtonElement(parent: t.JSXElement | t.JSXFragment): boolean {
+    if (!this.config.transformation.extractButtonText) return false;
+    if (!t.isJSXElement(parent)) return false;
+
+    const tagName = parent.openingElement.name;
+    return t.isJSXIdentifier(tagName) && /^button$/i.test(tagName.name);
   }
 
-  private addTranslationHook(
-    content: string,
-    componentInfo: ComponentInfo
-  ): string {
-    if (componentInfo.type === 'class') {
-      return this.addClassComponentSupport(content);
-    } else {
-      return this.addFunctionComponentHook(content);
+  /**
+   * The source range a translatable node covers, without the whitespace
+   * around JSX text
+   */
+  private getTextRange({ path: first, lastPath }: TranslatableNode): {
+    start: number;
+    end: number;
+    leading: string;
+  } {
+    const last = lastPath || first;
+    let start = first.node.start!;
+    let end = last.node.end!;
+    let leading = '';
+
+    if (t.isJSXText(first.node)) {
+      const raw = first.node.value;
+      leading = raw.slice(0, raw.length - raw.trimStart().length);
+      start += leading.length;
+    }
+    if (t.isJSXText(last.node)) {
+      const raw = last.node.value;
+      end -= raw.length - raw.trimEnd().length;
     }
-  }
 
-  private addFunctionComponentHook(content: string): string {
-    const hookStatement = '  const { t } = useTranslation();';
+    return { start, end, leading };
+  }
 
-    // Pattern 1: Function components - function ComponentName() {
-    let functionPattern = /(function\s+\w+[^{]*\{)/;
-    if (functionPattern.test(content)) {
-      return content.replace(functionPattern, `$1\n${hookStatement}\n`);
+  /**
+   * Return the literal value of `attr="..."` or `attr={'...'}`, or undefined
+   * when the attribute holds anything other than a plain string
+   */
+  private getAttributeStringValue(
+    attribute: t.JSXAttribute
+  ): string | undefined {
+    let value: t.Node | null | undefined = attribute.value;
+
+    if (t.isJSXExpressionContainer(value)) {
+      value = value.expression;
     }
 
-    // Pattern 2: Arrow function components - const ComponentName = () => {
-    let arrowPattern = /(const\s+[A-Z]\w*\s*=\s*\([^)]*\)\s*=>\s*\{)/;
-    if (arrowPattern.test(content)) {
-      return content.replace(arrowPattern, `$1\n${hookStatement}\n`);
+    if (t.isStringLiteral(value)) {
+      return value.value;
     }
 
-    // Pattern 3: Export default function
-    let exportPattern = /(export\s+default\s+function[^{]*\{)/;
-    if (exportPattern.test(content)) {
-      return content.replace(exportPattern, `$1\n${hookStatement}\n`);
+    if (t.isTemplateLiteral(value) && value.expressions.length === 0) {
+      return value.quasis[0].value.cooked ?? undefined;
     }
 
-    return content;
+    return undefined;
   }
 
-  private addClassComponentSupport(content: string): string {
-    // For class components, we need to use withTranslation HOC
-    console.log(`🔄 Adding class component support (HOC pattern)`);
-
-    // Add withTranslation import if not present
-    if (!/import.*withTranslation.*from.*react-i18next/.test(content)) {
-      const importPattern =
-        /(import.*useTranslation.*from\s+['"]react-i18next['"];?)/;
-      if (importPattern.test(content)) {
-        content = content.replace(
-          importPattern,
-          "$1\nimport { withTranslation } from 'react-i18next';"
-        );
-      } else {
-        // Add new import
-        const lines = content.split('\n');
-        let insertIndex = 0;
-        for (let i = 0; i < lines.length; i++) {
-          if (/^import\s/.test(lines[i].trim())) {
-            insertIndex = i + 1;
-          }
+  /**
+   * Find the closest enclosing function component or class component method,
+   * which is where `t` has to be made available. Lowercase helpers are looked
+   * through so their text is translated with the component's `t`.
+   */
+  private findComponentScope(nodePath: NodePath): ComponentScope | undefined {
+    let fn = nodePath.getFunctionParent();
+
+    while (fn) {
+      if (fn.isClassMethod()) {
+        const classPath = fn.parentPath.parentPath;
+        if (
+          classPath &&
+          (classPath.isClassDeclaration() || classPath.isClassExpression()) &&
+          this.isClassComponent(classPath.node) &&
+          this.config.components.supportClassComponents
+        ) {
+          return {
+            name: classPath.node.id?.name || 'default',
+            fn,
+            classComponent: classPath,
+          };
         }
-        lines.splice(
-          insertIndex,
-          0,
-          "import { withTranslation } from 'react-i18next';"
-        );
-        content = lines.join('\n');
+        return undefined;
       }
-    }
 
-    // Wrap export with withTranslation HOC
-    const exportPattern = /export\s+default\s+(\w+);?$/m;
-    if (exportPattern.test(content)) {
-      content = content.replace(
-        exportPattern,
-        'export default withTranslation()($1);'
-      );
+      const name = this.getComponentName(fn);
+      if (name) {
+        return { name, fn };
+      }
+
+      fn = fn.parentPath ? fn.parentPath.getFunctionParent() : null;
     }
 
-    return content;
+    return undefined;
   }
 
-  private transformJSXElements(content: string): {
-    content: string;
-    count: number;
-  } {
-    let count = 0;
-
-    // Transform JSX text content
-    const jsxTextPattern = />([^<>{]+)</g;
-    content = content.replace(jsxTextPattern, (match, text) => {
-      const cleanText = text.trim();
+  private getComponentName(fn: NodePath<t.Function>): string | undefined {
+    const { node } = fn;
 
-      if (match.includes("{t('") || match.includes('t("')) {
-        return match; // Already transformed
-      }
+    if (
+      (t.isFunctionDeclaration(node) || t.isFunctionExpression(node)) &&
+      node.id
+    ) {
+      return /^[A-Z]/.test(node.id.name) ? node.id.name : undefined;
+    }
 
-      if (this.validator.isValidTranslationText(cleanText)) {
-        const key = this.getOrCreateKey(cleanText);
-        count++;
-        return `>{t('${key.replace(/'/g, "\\'")}')}<`;
-      }
-      return match;
-    });
+    // Look through memo() and forwardRef() wrappers
+    let parent = fn.parentPath;
+    while (
+      parent &&
+      parent.isCallExpression() &&
+      ['memo', 'forwardRef'].includes(this.getCalleeName(parent.node) || '')
+    ) {
+      parent = parent.parentPath;
+    }
 
-    // Transform attributes
-    const attributePatterns = [
-      { pattern: /placeholder=["']([^"']+)["']/g, attr: 'placeholder' },
-      { pattern: /title=["']([^"']+)["']/g, attr: 'title' },
-      { pattern: /alt=["']([^"']+)["']/g, attr: 'alt' },
-      { pattern: /aria-label=["']([^"']+)["']/g, attr: 'aria-label' },
-    ];
-
-    for (const { pattern, attr } of attributePatterns) {
-      content = content.replace(pattern, (match, text) => {
-        if (match.includes("{t('") || match.includes('t("')) {
-          return match; // Already transformed
-        }
+    if (parent?.isVariableDeclarator() && t.isIdentifier(parent.node.id)) {
+      const name = parent.node.id.name;
+      return /^[A-Z]/.test(name) ? name : undefined;
+    }
 
-        if (this.validator.isValidTranslationText(text)) {
-          const key = this.getOrCreateKey(text);
-          count++;
-          return `${attr}={t('${key.replace(/'/g, "\\'")}')}`;
-        }
-        return match;
-      });
+    if (parent?.isExportDefaultDeclaration()) {
+      return 'default';
     }
 
-    // Transform Button elements specifically
-    const buttonPattern = /<([Bb]utton[^>]*)>([^<]+)<\/[Bb]utton>/g;
-    content = content.replace(
-      buttonPattern,
-      (match, attributes, buttonText) => {
-        const cleanText = buttonText.trim();
+    return undefined;
+  }
 
-        if (
-          buttonText.includes("{t('") ||
-          buttonText.includes('t("') ||
-          buttonText.includes('{')
-        ) {
-          return match; // Already transformed or contains JSX
-        }
+  private getCalleeName(call: t.CallExpression): string | undefined {
+    const callee = call.callee;
 
-        if (this.validator.isValidTranslationText(cleanText)) {
-          const key = this.getOrCreateKey(cleanText);
-          count++;
-          return `<${attributes}>{t('${key.replace(/'/g, "\\'")}')}</${attributes.split(' ')[0]}>`;
-        }
-        return match;
-      }
-    );
+    if (t.isIdentifier(callee)) return callee.name;
+    if (t.isMemberExpression(callee) && t.isIdentifier(callee.property)) {
+      return callee.property.name;
+    }
 
-    return { content, count };
+    return undefined;
   }
 
-  private getOrCreateKey(text: string): string {
-    const cleanText = text.trim();
+  private isClassComponent(cls: t.Class): boolean {
+    const superClass = cls.superClass;
 
-    if (this.translationKeys.has(cleanText)) {
-      return this.translationKeys.get(cleanText)!;
+    if (t.isIdentifier(superClass)) {
+      return /^(Pure)?Component$/.test(superClass.name);
     }
 
-    const key = this.validator.suggestKeyName(
-      cleanText,
-      this.config.format.keyStrategy
+    return (
+      t.isMemberExpression(superClass) &&
+      t.isIdentifier(superClass.property) &&
+      /^(Pure)?Component$/.test(superClass.property.name)
     );
-    this.translationKeys.set(cleanText, key);
-    return key;
   }
 
-  private async generateTranslationFiles(): Promise<void> {
-    await fs.ensureDir(this.config.outputDir);
+  private extractTexts(
+    nodes: TranslatableNode[],
+    filePath: string
+  ): TextExtraction[] {
+    // Texts the transform would skip get no key
+    const translatables = nodes.filter(
+      ({ scope }) => scope && this.canBindT(scope)
+    );
 
-    // Create the source language file
-    const sourceTranslations: Record<string, string> = {};
-    this.translationKeys.forEach((key, text) => {
-      sourceTranslations[key] = text;
-    });
+    return translatables.map((translatable) => {
+      const { text, type } = translatable;
+      const { leading } = this.getTextRange(translatable);
+      const start = translatable.path.node.loc!.start;
 
-    // Sort keys if configured
-    const sortedTranslations = this.config.format.sortKeys
-      ? this.sortObjectKeys(sourceTranslations)
-      : sourceTranslations;
+      // Skip past the whitespace that precedes JSX text
+      const lines = leading.split('\n');
+      const line = start.line + lines.length - 1;
+      const column =
+        lines.length > 1
+          ? lines[lines.length - 1].length + 1
+          : start.column + leading.length + 1;
 
-    // Write source language file
-    const sourceFile = path.join(
-      this.config.outputDir,
-      `${this.config.sourceLanguage}.json`
-    );
-    await fs.writeJson(sourceFile, sortedTranslations, {
-      spaces: this.config.format.indent,
+      return {
+        text,
+        key: this.getOrCreateKey(
+          text,
+          this.getKeyContext(translatable, filePath)
+        ),
+        type,
+        filePath,
+        line,
+        column,
+      };
     });
-    console.log(
-      `📝 Generated ${sourceFile} with ${Object.keys(sortedTranslations).length} keys`
-    );
+  }
+
+  private transformJSXElements(
+    output: MagicString,
+    nodes: TranslatableNode[],
+    relativePath: string,
+    namespace?: string
+  ): {
+    count: number;
+    scopes: ComponentScope[];
+  } {
+    let count = 0;
+    const scopes = new Map<t.Node, ComponentScope>();
+
+    for (const translatable of nodes) {
+      const {
+        path: nodePath,
+        text,
+        type,
+        scope,
+        values,
+        plural,
+      } = translatable;
+
+      // Without an enclosing component there is nowhere to get `t` from
+      if (!scope) {
+        this.stats.warnings.push(
+          `Skipped "${text}" in ${relativePath}: not inside a component`
+        );
+        continue;
+      }
+      if (!this.canBindT(scope)) {
+        this.stats.warnings.push(
+          `Skipped "${text}" in ${relativePath}: ${scope.name} can't be wrapped with withTranslation(); pass \`t\` to it manually`
+        );
+        continue;
+      }
+
+      const key = this.getOrCreateKey(
+        text,
+        this.getKeyContext(translatable, relativePath)
+      );
+      this.addToNamespace(key, namespace);
+      if (plural) this.pluralMessages.set(key, plural);
+      const call = this.createTranslationCall(key, values);
+
+      if (nodePath.isJSXAttribute()) {
+        const value = nodePath.node.value!;
+        output.overwrite(value.start!, value.end!, `{${call}}`);
+        this.stats.attributesTransformed++;
+      } else {
+        // Keep surrounding whitespace so significant spaces and layout survive
+        const { start, end } = this.getTextRange(translatable);
+        output.overwrite(start, end, `{${call}}`);
+        if (type === 'button') this.stats.buttonsFixed++;
+      }
+
+      scopes.set(scope.fn.node, scope);
+      count++;
+    }
+
+    return { count, scopes: [...scopes.values()] };
+  }
+
+  private shouldAddHook(componentInfo: ComponentInfo): boolean {
+    if (!this.config.components.addUseTranslationHook) return false;
+    if (!componentInfo.needsTranslation) return false;
 
-    // Create target language files
-    for (const lang of this.config.targetLanguages) {
-      const targetFile = path.join(this.config.outputDir, `${lang}.json`);
+    return true;
+  }
 
-      let targetTranslations: Record<string, string> = {};
+  /**
+   * Make `t` available in every component scope that now uses it: a
+   * `useTranslation()` hook for function components, or `this.props.t` plus a
+   * `withTranslation()` wrapper for class components
+   */
+  private addTranslationHooks(
+    output: MagicString,
+    scopes: ComponentScope[],
+    namespace?: string
+  ): { hooksAdded: number; imports: string[] } {
+    const namespaceArg = namespace ? `'${namespace}'` : '';
+    let hooksAdded = 0;
+    const imports = new Set<string>();
+    const wrappedClasses = new Set<t.Node>();
+
+    for (const scope of scopes) {
+      if (scope.fn.scope.hasOwnBinding('t')) continue;
+
+      if (scope.classComponent) {
+        this.insertAtFunctionStart(
+          output,
+          scope.fn.node,
+          'const { t } = this.props;'
+        );
 
-      // Load existing translations if file exists
-      if (await fs.pathExists(targetFile)) {
-        try {
-          targetTranslations = await fs.readJson(targetFile);
-        } catch (error) {
-          this.stats.warnings.push(
-            `Could not load existing ${lang} translations`
-          );
+        if (!wrappedClasses.has(scope.classComponent.node)) {
+          wrappedClasses.add(scope.classComponent.node);
+          this.wrapClassExport(output, scope.classComponent, namespaceArg);
+          imports.add('withTranslation');
         }
+      } else {
+        this.insertAtFunctionStart(
+          output,
+          scope.fn.node,
+          `const { t } = useTranslation(${namespaceArg});`
+        );
+        imports.add('useTranslation');
       }
 
-      // Add new keys with empty values
-      Object.keys(sortedTranslations).forEach((key) => {
-        if (!targetTranslations[key]) {
-          targetTranslations[key] = '';
-        }
-      });
+      hooksAdded++;
+    }
+
+    return { hooksAdded, imports: [...imports] };
+  }
 
-      // Sort and write
-      const sortedTarget = this.config.format.sortKeys
-        ? this.sortObjectKeys(targetTranslations)
-        : targetTranslations;
+  private insertAtFunctionStart(
+    output: MagicString,
+    fn: t.Function,
+    statement: string
+  ): void {
+    const content = output.original;
+    const unit = this.getIndentUnit(content);
+    const body = fn.body;
+
+    if (t.isBlockStatement(body)) {
+      const indent =
+        body.body.length > 0
+          ? this.getIndentation(content, body.body[0].start!)
+          : `${this.getIndentation(content, fn.start!)}${unit}`;
+      output.appendLeft(body.start! + 1, `\n${indent}${statement}`);
+      return;
+    }
 
-      await fs.writeJson(targetFile, sortedTarget, {
-        spaces: this.config.format.indent,
-      });
-      console.log(`📝 Generated ${targetFile} template`);
+    // Expression-bodied arrow: turn `() => (...)` into a block with a return,
+    // indented from the line of the arrow
+    let start = body.start!;
+    let end = body.end!;
+    if (body.extra?.parenthesized) {
+      start = body.extra.parenStart as number;
+      end = content.indexOf(')', end) + 1;
     }
+    const baseIndent = this.getIndentation(
+      content,
+      content.lastIndexOf('=>', start)
+    );
+    const indent = `${baseIndent}${unit}`;
+
+    output.appendLeft(start, `{\n${indent}${statement}\n${indent}return `);
+    output.appendRight(end, `;\n${baseIndent}}`);
   }
 
-  private sortObjectKeys(obj: Record<string, string>): Record<string, string> {
-    const sorted: Record<string, string> = {};
-    Object.keys(obj)
-      .sort()
-      .forEach((key) => {
-        sorted[key] = obj[key];
-      });
-    return sorted;
+  /**
+   * Whether `t` can be bound in a scope: class components only get it from a
+   * withTranslation() wrapper around their export, checked before any of
+   * their texts is rewritten
+   */
+  private canBindT({ fn, classComponent }: ComponentScope): boolean {
+    return (
+      !classComponent ||
+      fn.scope.hasOwnBinding('t') ||
+      this.findClassExport(classComponent) !== undefined
+    );
   }
 
-  public getStats(): TransformationStats {
-    return { ...this.stats };
+  /**
+   * The `export default` of a class component, by name or declared inline,
+   * which withTranslation() can wrap
+   */
+  private findClassExport(
+    classPath: NodePath<t.Class>
+  ): t.ExportDefaultDeclaration | undefined {
+    const cls = classPath.node;
+    const name = cls.id?.name;
+    if (!name) return undefined;
+
+    const program = classPath.scope.getProgramParent().path.node as t.Program;
+    return program.body.find(
+      (statement): statement is t.ExportDefaultDeclaration =>
+        t.isExportDefaultDeclaration(statement) &&
+        (t.isIdentifier(statement.declaration, { name }) ||
+          statement.declaration === cls)
+    );
   }
 
-  public getExtractedTexts(): TextExtraction[] {
-    return [...this.extractedTexts];
+  private wrapClassExport(
+    output: MagicString,
+    classPath: NodePath<t.Class>,
+    namespaceArg: string
+  ): void {
+    const cls = classPath.node;
+    const name = cls.id!.name;
+    const statement = this.findClassExport(classPath)!;
+    const declaration = statement.declaration;
+
+    // export default Greeting;
+    if (declaration !== cls) {
+      output.overwrite(
+        declaration.start!,
+        declaration.end!,
+        `withTranslation(${namespaceArg})(${name})`
+      );
+      return;
+    }
+
+    // export default class Greeting extends Component { ... }
+    output.remove(statement.start!, cls.start!);
+    output.append(
+      `\nexport default withTranslation(${namespaceArg})(${name});\n`
+    );
   }
 
-  public getComponentInfo(): ComponentInfo[] {
-    return [...this.componentInfo];
+  /**
+   * Add the given named imports from the hook module, extending an existing
+   * import of that module when there is one. Returns whether anything changed.
+   */
+  private addTranslationImport(
+    output: MagicString,
+    ast: t.File,
+    names: string[]
+  ): boolean {
+    const moduleName =
+      this.config.components.customHookImport || 'react-i18next';
+    const body = ast.program.body;
+    const imports = body.filter((statement): statement is t.ImportDeclaration =>
+      t.isImportDeclaration(statement)
+    );
+
+    const existing = imports.find(
+      (decl) =>
+        decl.source.value === moduleName &&
+        !decl.specifiers.some((s) => t.isImportNamespaceSpecifier(s))
+    );
+
+    if (existing) {
+      const imported = new Set(
+        existing.specifiers
+          .filter((s): s is t.ImportSpecifier => t.isImportSpecifier(s))
+          .map((s) => s.local.name)
+      );
+      const missing = names.filter((name) => !imported.has(name));
+      if (missing.length === 0) return false;
+
+      const named = existing.specifiers.filter((s) => t.isImportSpecifier(s));
+      if (named.length > 0) {
+        output.appendLeft(
+          named[named.length - 1].end!,
+          `, ${missing.join(', ')}`
+        );
+      } else {
+        output.appendLeft(
+          existing.specifiers[0].end!,
+          `, { ${missing.join(', ')} }`
+        );
+      }
+      return true;
+    }
+
+    const importStatement = `import { ${names.join(', ')} } from '${moduleName}';`;
+
+    if (imports.length > 0) {
+      output.appendLeft(
+        imports[imports.length - 1].end!,
+        `\n${importStatement}`
+      );
+    } else if (ast.program.directives.length > 0) {
+      // Keep directives such as 'use client' first
+      const directives = ast.program.directives;
+      output.appendLeft(
+        directives[directives.length - 1].end!,
+        `\n${importStatement}`
+      );
+    } else {
+      output.prepend(`${importStatement}\n`);
+    }
+
+    return true;
+  }
+
+  private getKeyContext(
+    { type, scope }: TranslatableNode,
+    filePath: string
+  ): KeyContext {
+    // Anonymous default exports are keyed by their file name
+    return {
+      filePath: path.relative(this.config.srcDir, filePath),
+      component: scope?.name === 'default' ? undefined : scope?.name,
+      type,
+    };
   }
 }
 
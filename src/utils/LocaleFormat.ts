@@ -0,0 +1,187 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import * as glob from 'glob';
+import { I18nConfig, LocaleFile } from '../types';
+import { ConfigManager } from '../core/ConfigManager';
+
+/**
+ * Reads and shapes locale JSON according to `format.structure`. Everything
+ * in between works on flat `key → value` entries; nested files use
+ * `format.keySeparator` to split keys into objects, like i18next does.
+ *
+ * Also decides where locale files live: `<outputDir>/<lang>.json`, or
+ * `<outputDir>/<lang>/<namespace>.json` once `format.namespaces` maps
+ * source folders to namespaces.
+ */
+export class LocaleFormat {
+  private config: I18nConfig;
+  private namespaceFiles: Map<string, Set<string>> = new Map();
+
+  constructor(config?: I18nConfig) {
+    this.config = config || ConfigManager.getInstance().getConfig();
+  }
+
+  private get separator(): string {
+    return this.config.format.keySeparator || '.';
+  }
+
+  public isNested(): boolean {
+    return this.config.format.structure === 'nested';
+  }
+
+  public isNamespaced(): boolean {
+    return Object.keys(this.config.format.namespaces || {}).length > 0;
+  }
+
+  /**
+   * Namespace of a source file, from the first `format.namespaces` glob
+   * (relative to the project root) that matches it. Undefined when
+   * namespaces are off.
+   */
+  public getNamespace(filePath: string): string | undefined {
+    if (!this.isNamespaced()) return undefined;
+
+    const resolved = path.resolve(filePath);
+    for (const [pattern, namespace] of Object.entries(
+      this.config.format.namespaces!
+    )) {
+      if (this.getNamespaceFiles(pattern).has(resolved)) return namespace;
+    }
+
+    return this.config.format.defaultNamespace || 'common';
+  }
+
+  public getLocalePath(language: string, namespace?: string): string {
+    return namespace
+      ? path.join(this.config.outputDir, language, `${namespace}.json`)
+      : path.join(this.config.outputDir, `${language}.json`);
+  }
+
+  /** Locale files of a language on disk, one per namespace when enabled */
+  public async getLocaleFiles(language: string): Promise<LocaleFile[]> {
+    if (!this.isNamespaced()) {
+      const filePath = this.getLocalePath(language);
+      return (await fs.pathExists(filePath)) ? [{ filePath }] : [];
+    }
+
+    const dir = path.join(this.config.outputDir, language);
+    if (!(await fs.pathExists(dir))) return [];
+
+    return (await fs.readdir(dir))
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map((file) => {
+        const namespace = path.basename(file, '.json');
+        return { namespace, filePath: this.getLocalePath(language, namespace) };
+      });
+  }
+
+  /**
+   * Read a locale file as flat entries, whichever structure it was written
+   * in, so switching between flat and nested never loses keys
+   */
+  public async read(filePath: string): Promise<Record<string, unknown>> {
+    return LocaleFormat.flatten(await fs.readJson(filePath), this.separator);
+  }
+
+  /** Shape flat entries for writing, sorting them first when configured */
+  public serialize(entries: Record<string, unknown>): Record<string, unknown> {
+    const keys = Object.keys(entries);
+    if (this.config.format.sortKeys) keys.sort();
+
+    const sorted: Record<string, unknown> = {};
+    keys.forEach((key) => {
+      sorted[key] = entries[key];
+    });
+
+    return this.isNested()
+      ? LocaleFormat.unflatten(sorted, this.separator)
+      : sorted;
+  }
+
+  /** `{ nav: { home: 'Home' } }` becomes `{ 'nav.home': 'Home' }` */
+  public static flatten(
+    data: Record<string, unknown>,
+    separator: string,
+    prefix = ''
+  ): Record<string, unknown> {
+    const entries: Record<string, unknown> = {};
+
+    Object.entries(data).forEach(([key, value]) => {
+      const fullKey = prefix ? `${prefix}${separator}${key}` : key;
+      if (value && typeof value === 'object' && !Array.isArray(value)) {
+        Object.assign(
+          entries,
+          LocaleFormat.flatten(
+            value as Record<string, unknown>,
+            separator,
+            fullKey
+          )
+        );
+      } else {
+        entries[fullKey] = value;
+      }
+    });
+
+    return entries;
+  }
+
+  /**
+   * `{ 'nav.home': 'Home' }` becomes `{ nav: { home: 'Home' } }`. A key that
+   * collides with another key's object (`nav` next to `nav.home`) stays flat
+   * at the top level, where i18next still finds it.
+   */
+  public static unflatten(
+    entries: Record<string, unknown>,
+    separator: string
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const conflicts: [string, unknown][] = [];
+
+    Object.entries(entries).forEach(([key, value]) => {
+      const segments = key.split(separator);
+      let target = result;
+
+      for (const segment of segments.slice(0, -1)) {
+        if (target[segment] === undefined) target[segment] = {};
+        if (!LocaleFormat.isObject(target[segment])) {
+          conflicts.push([key, value]);
+          return;
+        }
+        target = target[segment] as Record<string, unknown>;
+      }
+
+      const last = segments[segments.length - 1];
+      if (LocaleFormat.isObject(target[last])) {
+        conflicts.push([key, value]);
+        return;
+      }
+      target[last] = value;
+    });
+
+    conflicts.forEach(([key, value]) => {
+      result[key] = value;
+    });
+
+    return result;
+  }
+
+  private getNamespaceFiles(pattern: string): Set<string> {
+    if (!this.namespaceFiles.has(pattern)) {
+      const matches = glob.sync(pattern.replace(/\\/g, '/'), {
+        absolute: true,
+      });
+      this.namespaceFiles.set(
+        pattern,
+        new Set(matches.map((match) => path.resolve(match)))
+      );
+    }
+    return this.namespaceFiles.get(pattern)!;
+  }
+
+  private static isObject(value: unknown): boolean {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+  }
+}
+
+export default LocaleFormat;
@@ -0,0 +1,181 @@
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import {
+  I18nConfig,
+  LocaleIssue,
+  LocaleFileReport,
+  LocaleValidationReport,
+} from '../types';
+import { ConfigManager } from '../core/ConfigManager';
+import { PluralForms, ExpandedMessages } from './PluralForms';
+import { LocaleFormat } from './LocaleFormat';
+
+/**
+ * Audits the locale files written by the transformers against the source
+ * language file
+ */
+export class LocaleValidator {
+  private config: I18nConfig;
+  private localeFormat: LocaleFormat;
+
+  constructor(config?: I18nConfig) {
+    this.config = config || ConfigManager.getInstance().getConfig();
+    this.localeFormat = new LocaleFormat(this.config);
+  }
+
+  /**
+   * Return the interpolation variables used in a message, e.g. `name` for
+   * `Hello {{name}}` or `count` for `{{count, number}}`
+   */
+  public static getPlaceholders(text: string): string[] {
+    const names = new Set<string>();
+    const pattern = /\{\{\s*([^},\s]+)[^}]*\}\}/g;
+
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      names.add(match[1]);
+    }
+
+    return [...names].sort();
+  }
+
+  /**
+   * Check every target language against the source, namespace by
+   * namespace when locale files are split per feature
+   */
+  public async validate(): Promise<LocaleValidationReport> {
+    const sourceLanguage = this.config.sourceLanguage;
+    const sourceFile = this.localeFormat.isNamespaced()
+      ? path.join(this.config.outputDir, sourceLanguage)
+      : this.localeFormat.getLocalePath(sourceLanguage);
+
+    const sourceFiles = await this.localeFormat.getLocaleFiles(sourceLanguage);
+    if (sourceFiles.length === 0) {
+      throw new Error(`Source locale file not found: ${sourceFile}`);
+    }
+
+    const files: LocaleFileReport[] = [];
+    for (const { namespace, filePath: sourcePath } of sourceFiles) {
+      const source = await this.readLocale(sourcePath);
+      files.push(this.checkSource(sourcePath, source, namespace));
+
+      for (const language of this.config.targetLanguages) {
+        const filePath = this.localeFormat.getLocalePath(language, namespace);
+        const exists = await fs.pathExists(filePath);
+        const target = exists ? await this.readLocale(filePath) : {};
+        const expected = PluralForms.expand(source, language);
+
+        files.push({
+          language,
+          namespace,
+          filePath,
+          exists,
+          totalKeys: Object.keys(target).length,
+          expectedKeys: Object.keys(expected.messages).length,
+          issues: this.compare(language, expected, target),
+        });
+      }
+    }
+
+    return {
+      sourceFile,
+      files,
+      issues: files.flatMap((file) => file.issues),
+    };
+  }
+
+  private checkSource(
+    filePath: string,
+    source: Record<string, string>,
+    namespace?: string
+  ): LocaleFileReport {
+    const language = this.config.sourceLanguage;
+    const issues = Object.entries(source)
+      .filter(([, value]) => value.trim() === '')
+      .map(([key]) =>
+        this.issue(language, key, 'empty', 'Source text is empty')
+      );
+
+    return {
+      language,
+      namespace,
+      filePath,
+      exists: true,
+      totalKeys: Object.keys(source).length,
+      expectedKeys: Object.keys(source).length,
+      issues,
+    };
+  }
+
+  private compare(
+    language: string,
+    { messages: source, pluralKeys }: ExpandedMessages,
+    target: Record<string, string>
+  ): LocaleIssue[] {
+    const issues: LocaleIssue[] = [];
+
+    for (const [key, sourceText] of Object.entries(source)) {
+      if (!(key in target)) {
+        issues.push(this.issue(language, key, 'missing', 'Key is missing'));
+        continue;
+      }
+
+      const value = target[key];
+      if (value.trim() === '') {
+        issues.push(this.issue(language, key, 'empty', 'Not translated yet'));
+        continue;
+      }
+
+      // Plural forms may spell out the count, e.g. "One item"
+      const ignored = pluralKeys.has(key) ? ['count'] : [];
+      const expected = LocaleValidator.getPlaceholders(sourceText).filter(
+        (name) => !ignored.includes(name)
+      );
+      const actual = LocaleValidator.getPlaceholders(value).filter(
+        (name) => !ignored.includes(name)
+      );
+      if (expected.join() !== actual.join()) {
+        issues.push(
+          this.issue(
+            language,
+            key,
+            'placeholder-mismatch',
+            `Expected placeholders [${expected.join(', ')}], found [${actual.join(', ')}]`
+          )
+        );
+      }
+    }
+
+    for (const key of Object.keys(target)) {
+      if (!(key in source)) {
+        issues.push(
+          this.issue(language, key, 'orphaned', 'Key is not in the source file')
+        );
+      }
+    }
+
+    return issues;
+  }
+
+  private issue(
+    language: string,
+    key: string,
+    type: LocaleIssue['type'],
+    message: string
+  ): LocaleIssue {
+    return { language, key, type, message };
+  }
+
+  private async readLocale(filePath: string): Promise<Record<string, string>> {
+    const data = await this.localeFormat.read(filePath);
+    const entries: Record<string, string> = {};
+
+    Object.entries(data).forEach(([key, value]) => {
+      entries[key] = typeof value === 'string' ? value : '';
+    });
+
+    return entries;
+  }
+}
+
+export default LocaleValidator;
@@ -0,0 +1,42 @@
+/**
+ * The parts of a message that must survive translation unchanged:
+ * `{{placeholders}}`, `<Trans>` component tags (`<1>`, `</1>`, `<2/>`) and
+ * nested `$t(key)` references
+ */
+export class MessageTokens {
+  private static readonly PATTERN =
+    /\{\{[^}]*\}\}|<\/?\d+\s*\/?>|\$t\([^)]*\)/g;
+
+  public static extract(text: string): string[] {
+    return text.match(MessageTokens.PATTERN) || [];
+  }
+
+  /** Whether a translation kept every token of its source, in any order */
+  public static preserves(source: string, translation: string): boolean {
+    const expected = MessageTokens.extract(source).sort();
+    const actual = MessageTokens.extract(translation).sort();
+    return expected.join('\n') === actual.join('\n');
+  }
+
+  /**
+   * Swap tokens for numbered markers such as `⟦0⟧` before handing text to
+   * something that might alter them, e.g. a machine translation API
+   */
+  public static mask(text: string): { text: string; tokens: string[] } {
+    const tokens: string[] = [];
+    const masked = text.replace(MessageTokens.PATTERN, (token) => {
+      tokens.push(token);
+      return `⟦${tokens.length - 1}⟧`;
+    });
+    return { text: masked, tokens };
+  }
+
+  public static unmask(text: string, tokens: string[]): string {
+    return text.replace(
+      /⟦(\d+)⟧/g,
+      (marker, index: string) => tokens[Number(index)] ?? marker
+    );
+  }
+}
+
+export default MessageTokens;
@@ -0,0 +1,100 @@
+/** Source texts by the keys a target locale should have */
+export interface ExpandedMessages {
+  messages: Record<string, string>;
+  pluralKeys: Set<string>;
+}
+
+/**
+ * Helpers for i18next plural keys, which carry a CLDR category suffix such
+ * as `items_one` / `items_other`. Which categories exist depends on the
+ * language: Japanese only has `other`, Russian adds `few` and `many`.
+ */
+export class PluralForms {
+  public static readonly CATEGORIES = [
+    'zero',
+    'one',
+    'two',
+    'few',
+    'many',
+    'other',
+  ];
+
+  private static readonly SUFFIX_PATTERN =
+    /^(.+)_(zero|one|two|few|many|other)$/;
+
+  /**
+   * Plural categories of a language in CLDR order, falling back to
+   * English-like `one`/`other` when the runtime doesn't know the language
+   */
+  public static getCategories(language: string): string[] {
+    try {
+      const categories = new Intl.PluralRules(language).resolvedOptions()
+        .pluralCategories;
+      return PluralForms.CATEGORIES.filter((category) =>
+        categories.includes(category as Intl.LDMLPluralRule)
+      );
+    } catch {
+      return ['one', 'other'];
+    }
+  }
+
+  public static getKey(key: string, category: string): string {
+    return `${key}_${category}`;
+  }
+
+  /**
+   * Split `items_one` into its base key and category, or return undefined
+   * for keys without a plural suffix
+   */
+  public static splitKey(
+    key: string
+  ): { base: string; category: string } | undefined {
+    const match = key.match(PluralForms.SUFFIX_PATTERN);
+    return match ? { base: match[1], category: match[2] } : undefined;
+  }
+
+  /**
+   * Replace the plural forms of a source locale (`items_one`, `items_other`)
+   * with the categories another language needs, all expecting the source's
+   * `_other` text. Also returns which of the keys are plural forms.
+   */
+  public static expand(
+    source: Record<string, string>,
+    language: string
+  ): ExpandedMessages {
+    const messages: Record<string, string> = {};
+    const pluralKeys = new Set<string>();
+
+    for (const [key, text] of Object.entries(source)) {
+      const plural = PluralForms.splitKey(key);
+      if (!plural || !(PluralForms.getKey(plural.base, 'other') in source)) {
+        messages[key] = text;
+        continue;
+      }
+
+      if (plural.category !== 'other') continue;
+      for (const category of PluralForms.getCategories(language)) {
+        const targetKey = PluralForms.getKey(plural.base, category);
+        messages[targetKey] = text;
+        pluralKeys.add(targetKey);
+      }
+    }
+
+    return { messages, pluralKeys };
+  }
+
+  /**
+   * Best-effort English singular for `count + ' files'` style code, where
+   * only the plural is written down. Translators review the result anyway.
+   */
+  public static singularize(text: string): string {
+    return text.replace(/(\w+)(\W*)$/, (_, word: string, rest: string) => {
+      if (/ies$/i.test(word)) return `${word.slice(0, -3)}y${rest}`;
+      if (/(ss|sh|ch|x)es$/i.test(word)) return `${word.slice(0, -2)}${rest}`;
+      if (/[^s]s$/i.test(word)) return `${word.slice(0, -1)}${rest}`;
+      return `${word}${rest}`;
+    });
+  }
+}
+
+export default PluralForms;
@@ -0,0 +1,134 @@
+import { TranslationUnit } from '../types';
+
+/** An entry read back from a PO file */
+export interface PoEntry {
+  context?: string;
+  id: string;
+  translation: string;
+  fuzzy: boolean;
+}
+
+/**
+ * Minimal gettext PO/POT reader and writer. Keys travel as `msgctxt` when
+ * they differ from the source text, so entries map back to locale keys even
+ * when two keys share a text.
+ */
+export class PoFormat {
+  private static readonly FIELDS = {
+    msgctxt: 'context',
+    msgid: 'id',
+    msgstr: 'translation',
+  } as const;
+
+  public static serialize(units: TranslationUnit[], language = ''): string {
+    const header = [
+      'msgid ""',
+      'msgstr ""',
+      ...[
+        `Language: ${language}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: 8bit',
+        'X-Generator: react-auto-i18ner',
+      ].map((line) => PoFormat.quote(`${line}\n`)),
+    ];
+
+    const entries = units.map((unit) => {
+      const lines: string[] = [];
+      if (unit.pluralCategory) {
+        lines.push(`#. Plural form "${unit.pluralCategory}"`);
+      }
+      unit.references.forEach(({ filePath, line }) =>
+        lines.push(`#: ${filePath}:${line}`)
+      );
+      if (unit.key !== unit.source) {
+        lines.push(`msgctxt ${PoFormat.quote(unit.key)}`);
+      }
+      lines.push(`msgid ${PoFormat.quote(unit.source)}`);
+      lines.push(`msgstr ${PoFormat.quote(unit.target)}`);
+      return lines.join('\n');
+    });
+
+    return [header.join('\n'), ...entries].join('\n\n') + '\n';
+  }
+
+  /**
+   * Read the header fields and entries of a PO file. Plural entries
+   * (`msgid_plural`) are not written by `serialize` and are ignored.
+   */
+  public static parse(content: string): {
+    headers: Record<string, string>;
+    entries: PoEntry[];
+  } {
+    const headers: Record<string, string> = {};
+    const entries: PoEntry[] = [];
+    let entry: Partial<PoEntry> = {};
+    let field: 'context' | 'id' | 'translation' | undefined;
+
+    const flush = () => {
+      if (entry.id === '' && entry.context === undefined) {
+        (entry.translation || '').split('\n').forEach((line) => {
+          const separator = line.indexOf(':');
+          if (separator > 0) {
+            headers[line.slice(0, separator).trim()] = line
+              .slice(separator + 1)
+              .trim();
+          }
+        });
+      } else if (entry.id !== undefined) {
+        entries.push({
+          context: entry.context,
+          id: entry.id,
+          translation: entry.translation || '',
+          fuzzy: !!entry.fuzzy,
+        });
+      }
+      entry = {};
+      field = undefined;
+    };
+
+    for (const line of content.split(/\r?\n/).map((raw) => raw.trim())) {
+      // A comment or keyword after `msgstr` starts the next entry
+      if (
+        entry.translation !== undefined &&
+        /^(#|msgctxt |msgid )/.test(line)
+      ) {
+        flush();
+      }
+
+      if (line === '') {
+        if (entry.translation !== undefined) flush();
+      } else if (line.startsWith('#,')) {
+        if (/\bfuzzy\b/.test(line)) entry.fuzzy = true;
+      } else if (line.startsWith('"')) {
+        if (field) entry[field] = `${entry[field]}${PoFormat.unquote(line)}`;
+      } else {
+        const match = line.match(/^(msgctxt|msgid|msgstr)\s+(".*")$/);
+        field = match
+          ? PoFormat.FIELDS[match[1] as keyof typeof PoFormat.FIELDS]
+          : undefined;
+        if (field) entry[field] = PoFormat.unquote(match![2]);
+      }
+    }
+    flush();
+
+    return { headers, entries };
+  }
+
+  public static quote(text: string): string {
+    return `"${text
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\t/g, '\\t')}"`;
+  }
+
+  public static unquote(text: string): string {
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r' };
+    return text
+      .slice(1, -1)
+      .replace(/\\(.)/g, (_, char: string) => escapes[char] ?? char);
+  }
+}
+
+export default PoFormat;
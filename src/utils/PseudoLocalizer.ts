@@ -0,0 +1,103 @@
+import { MessageTokens } from './MessageTokens';
+import { PluralForms } from './PluralForms';
+
+/**
+ * Pseudo-translations for UI testing: `Settings` becomes `[Šéţţîñĝš ~~~]`.
+ * Accents show which texts went through i18n, the brackets reveal clipped
+ * text and the padding simulates languages that run about 30% longer.
+ * Placeholders and `<Trans>` tags are left intact.
+ */
+export class PseudoLocalizer {
+  private static readonly ACCENTS: Record<string, string> = {
+    A: 'Å',
+    B: 'Ɓ',
+    C: 'Ç',
+    D: 'Ð',
+    E: 'É',
+    F: 'Ƒ',
+    G: 'Ĝ',
+    H: 'Ĥ',
+    I: 'Î',
+    J: 'Ĵ',
+    K: 'Ķ',
+    L: 'Ļ',
+    M: 'Ṁ',
+    N: 'Ñ',
+    O: 'Ö',
+    P: 'Þ',
+    Q: 'Ǫ',
+    R: 'Ŕ',
+    S: 'Š',
+    T: 'Ţ',
+    U: 'Û',
+    V: 'Ṽ',
+    W: 'Ŵ',
+    X: 'Ẋ',
+    Y: 'Ý',
+    Z: 'Ž',
+    a: 'å',
+    b: 'ƀ',
+    c: 'ç',
+    d: 'ð',
+    e: 'é',
+    f: 'ƒ',
+    g: 'ĝ',
+    h: 'ĥ',
+    i: 'î',
+    j: 'ĵ',
+    k: 'ķ',
+    l: 'ļ',
+    m: 'ṁ',
+    n: 'ñ',
+    o: 'ö',
+    p: 'þ',
+    q: 'ǫ',
+    r: 'ŕ',
+    s: 'š',
+    t: 'ţ',
+    u: 'û',
+    v: 'ṽ',
+    w: 'ŵ',
+    x: 'ẋ',
+    y: 'ý',
+    z: 'ž',
+  };
+
+  private static readonly EXPANSION = 0.3;
+
+  public static localize(text: string): string {
+    if (text.trim() === '') return text;
+
+    const { text: masked, tokens } = MessageTokens.mask(text);
+    const accented = masked.replace(
+      /⟦\d+⟧|[A-Za-z]/g,
+      (match) => PseudoLocalizer.ACCENTS[match] ?? match
+    );
+    const visible = masked.replace(/⟦\d+⟧/g, '').length;
+    const padding = '~'.repeat(
+      Math.max(1, Math.ceil(visible * PseudoLocalizer.EXPANSION))
+    );
+
+    return `[${MessageTokens.unmask(accented, tokens)} ${padding}]`;
+  }
+
+  /**
+   * Pseudo-translate a source locale, with plural forms expanded to the
+   * categories of the pseudo language
+   */
+  public static localizeAll(
+    source: Record<string, string>,
+    language: string
+  ): Record<string, string> {
+    const { messages } = PluralForms.expand(source, language);
+    const pseudo: Record<string, string> = {};
+
+    Object.entries(messages).forEach(([key, text]) => {
+      pseudo[key] = PseudoLocalizer.localize(source[key] ?? text);
+    });
+
+    return pseudo;
+  }
+}
+
+export default PseudoLocalizer;
@@ -1,6 +1,25 @@
-import { I18nConfig, ValidationRule } from '../types';
+import * as path from 'path';
+import {
+  I18nConfig,
+  KeyContext,
+  TextExtraction,
+  ValidationRule,
+} from '../types';
 import { ConfigManager } from '../core/ConfigManager';
 
+/** Role segment of namespaced keys for each extraction type */
+const KEY_ROLES: Record<TextExtraction['type'], string> = {
+  'jsx-text': 'text',
+  attribute: 'alt',
+  button: 'button',
+  'aria-label': 'ariaLabel',
+  placeholder: 'placeholder',
+  title: 'title',
+  'rich-text': 'richText',
+  'string-literal': 'message',
+  'module-string': 'label',
+};
+
 export class TextValidator {
   private config: I18nConfig;
   private validationRules: ValidationRule[];
@@ -241,10 +260,19 @@ export class TextValidator {
     return codePatterns.some((pattern) => pattern.test(text));
   }
 
-  public suggestKeyName(text: string, strategy: string = 'text'): string {
+  public suggestKeyName(
+    text: string,
+    strategy: string = 'text',
+    context?: KeyContext
+  ): string {
     const cleanText = text.trim();
 
     switch (strategy) {
+      case 'namespaced':
+        return context
+          ? this.createNamespacedKey(cleanText, context)
+          : this.createPathBasedKey(cleanText);
+
       case 'hash':
         return this.createHash(cleanText);
 
@@ -281,6 +309,48 @@ export class TextValidator {
       .substring(0, 50);
   }
 
+  /**
+   * Build `checkout.PaymentForm.button.submitPayment` from the directories
+   * of the file, the component, the role of the text and its first words
+   */
+  private createNamespacedKey(text: string, context: KeyContext): string {
+    const separator = this.config.format.keySeparator || '.';
+    const clean = (segment: string) => segment.split(separator).join('_');
+
+    const directories = path
+      .dirname(context.filePath)
+      .split(/[\\/]/)
+      .filter((segment) => segment && segment !== '.' && segment !== '..');
+    const component =
+      context.component ||
+      path.basename(context.filePath, path.extname(context.filePath));
+
+    const words = text
+      .replace(/\{\{[^}]*\}\}|<\/?\d+\/?>/g, ' ')
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, '')
+      .split(/\s+/)
+      .filter((word) => word.length > 0)
+      .slice(0, 4);
+    const name =
+      words
+        .map((word, i) =>
+          i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)
+        )
+        .join('') || 'text';
+
+    return [
+      this.config.format.keyPrefix,
+      ...directories,
+      component,
+      KEY_ROLES[context.type],
+      name,
+    ]
+      .filter((segment): segment is string => !!segment)
+      .map(clean)
+      .join(separator);
+  }
+
   private createCustomKey(text: string): string {
     // Custom key generation logic - can be extended
     const words = text.split(/\s+/).slice(0, 3);
@@ -0,0 +1,151 @@
+import * as fs from 'fs-extra';
+import { I18nConfig, TranslationSuggestion } from '../types';
+import { LocaleFormat } from './LocaleFormat';
+
+/**
+ * Translations already made for each source text, so a key created for a
+ * text that was translated under another key doesn't start out empty. Exact
+ * matches are filled in; near matches are only suggested, as a copy edit
+ * may have changed the meaning.
+ */
+export class TranslationMemory {
+  private threshold: number;
+  private entries: Map<string, Map<string, string>> = new Map(); // Language → source text → translation
+  private suggestions: Record<string, Record<string, TranslationSuggestion>> =
+    {};
+  private filled = 0;
+
+  constructor(threshold: number) {
+    this.threshold = threshold;
+  }
+
+  /** Pair the texts of the source locale files with their translations */
+  public static async load(
+    config: I18nConfig,
+    localeFormat: LocaleFormat
+  ): Promise<TranslationMemory> {
+    const memory = new TranslationMemory(config.translation.fuzzyThreshold);
+    const sourceFiles = await localeFormat.getLocaleFiles(
+      config.sourceLanguage
+    );
+
+    for (const { namespace, filePath } of sourceFiles) {
+      const source = await localeFormat.read(filePath);
+
+      for (const language of config.targetLanguages) {
+        const targetPath = localeFormat.getLocalePath(language, namespace);
+        if (!(await fs.pathExists(targetPath))) continue;
+
+        const target = await localeFormat.read(targetPath);
+        Object.entries(source).forEach(([key, text]) => {
+          const translation = target[key];
+          if (typeof text === 'string' && typeof translation === 'string') {
+            memory.add(language, text, translation);
+          }
+        });
+      }
+    }
+
+    return memory;
+  }
+
+  public add(language: string, text: string, translation: string): void {
+    if (!text || !translation) return;
+    if (!this.entries.has(language)) this.entries.set(language, new Map());
+    const entries = this.entries.get(language)!;
+    if (!entries.has(text)) entries.set(text, translation);
+  }
+
+  /**
+   * The translation of an identical text, or '' when there is none. A near
+   * match is recorded as a suggestion for the key instead.
+   */
+  public recall(language: string, key: string, text: string): string {
+    const entries = this.entries.get(language);
+    if (!entries || !text) return '';
+
+    const exact = entries.get(text);
+    if (exact) {
+      this.filled++;
+      return exact;
+    }
+
+    const match = this.findSimilar(entries, text);
+    if (match) {
+      this.suggestions[language] = {
+        ...this.suggestions[language],
+        [key]: { source: text, ...match },
+      };
+    }
+    return '';
+  }
+
+  public getFilledCount(): number {
+    return this.filled;
+  }
+
+  /** Near matches by language and key */
+  public getSuggestions(): Record<
+    string,
+    Record<string, TranslationSuggestion>
+  > {
+    return this.suggestions;
+  }
+
+  public getSuggestionCount(): number {
+    return Object.values(this.suggestions).reduce(
+      (sum, suggestions) => sum + Object.keys(suggestions).length,
+      0
+    );
+  }
+
+  private findSimilar(
+    entries: Map<string, string>,
+    text: string
+  ): Omit<TranslationSuggestion, 'source'> | undefined {
+    if (this.threshold >= 1) return undefined;
+
+    let best: Omit<TranslationSuggestion, 'source'> | undefined;
+    for (const [match, suggestion] of entries) {
+      // The edit distance is at least the length difference
+      const longest = Math.max(match.length, text.length);
+      const bound = Math.min(match.length, text.length) / longest;
+      if (bound < this.threshold || (best && bound <= best.similarity)) {
+        continue;
+      }
+
+      const similarity = 1 - TranslationMemory.distance(match, text) / longest;
+      if (
+        similarity >= this.threshold &&
+        (!best || similarity > best.similarity)
+      ) {
+        best = { match, suggestion, similarity };
+      }
+    }
+
+    return (
+      best && { ...best, similarity: Math.round(best.similarity * 100) / 100 }
+    );
+  }
+
+  /** Levenshtein distance */
+  private static distance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+}
+
+export default TranslationMemory;
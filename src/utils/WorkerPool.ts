@@ -0,0 +1,81 @@
+import { Worker } from 'worker_threads';
+
+interface Job<Task, Result> {
+  task: Task;
+  resolve: (result: Result) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Runs tasks on a fixed number of worker threads, each taking the next
+ * queued task once it is done. The worker script answers every task message
+ * with `{ result }` or `{ error }`.
+ */
+export class WorkerPool<Task, Result> {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: Job<Task, Result>[] = [];
+  private running: Map<Worker, Job<Task, Result>> = new Map();
+
+  constructor(script: string, size: number, workerData?: unknown) {
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(script, { workerData });
+      worker.on('message', (message) => this.finish(worker, message));
+      worker.on('error', (error) => this.fail(worker, error));
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  public run(task: Task): Promise<Result> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ task, resolve, reject });
+      this.next();
+    });
+  }
+
+  public async close(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    this.idle = [];
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private next(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const job = this.queue.shift()!;
+      this.running.set(worker, job);
+      worker.postMessage(job.task);
+    }
+  }
+
+  private finish(
+    worker: Worker,
+    message: { result?: Result; error?: string }
+  ): void {
+    const job = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if (message.error !== undefined) {
+      job?.reject(new Error(message.error));
+    } else {
+      job?.resolve(message.result as Result);
+    }
+    this.next();
+  }
+
+  /** A crashed worker fails its task; without workers, so does the queue */
+  private fail(worker: Worker, error: Error): void {
+    this.running.get(worker)?.reject(error);
+    this.running.delete(worker);
+    this.workers = this.workers.filter((other) => other !== worker);
+
+    if (this.workers.length === 0) {
+      this.queue.splice(0).forEach((job) => job.reject(error));
+    }
+  }
+}
+
+export default WorkerPool;
@@ -0,0 +1,300 @@
+import { XMLParser } from 'fast-xml-parser';
+import { ImportedTranslation, TranslationUnit } from '../types';
+
+export type XliffVersion = '1.2' | '2.0';
+
+/** An element (`{ name: children, ':@': attributes }`) or `{ '#text': … }` */
+type XmlNode = Record<string, unknown>;
+
+/**
+ * XLIFF 1.2 and 2.0 writer and reader. Unit ids are positional since
+ * XLIFF 2.0 ids can't hold spaces; the key travels as `resname` (1.2) or
+ * `name` (2.0), and each extraction site becomes a note.
+ *
+ * Exports only write the `new`/`initial` and `translated` states: locale
+ * files keep no review status, so a unit is never exported as `final`
+ * (2.0) or `signed-off`/`final` (1.2). Imports accept those states like
+ * any other translated one, and read inline markup such as `<g>` or
+ * `<mrk>` as its text.
+ */
+export class XliffFormat {
+  // Every 1.2 target state and 2.0 segment state, by whether the target
+  // holds a translation; custom `x-` states count as translated
+  private static readonly TRANSLATED_STATES: Record<string, boolean> = {
+    new: false,
+    initial: false,
+    'needs-translation': false,
+    'needs-l10n': true,
+    'needs-adaptation': true,
+    'needs-review-translation': true,
+    'needs-review-l10n': true,
+    'needs-review-adaptation': true,
+    translated: true,
+    reviewed: true,
+    final: true,
+    'signed-off': true,
+  };
+
+  public static serialize(
+    units: TranslationUnit[],
+    sourceLanguage: string,
+    targetLanguage: string,
+    version: XliffVersion = '1.2'
+  ): string {
+    return version === '2.0'
+      ? XliffFormat.serialize20(units, sourceLanguage, targetLanguage)
+      : XliffFormat.serialize12(units, sourceLanguage, targetLanguage);
+  }
+
+  /** Read the target language and the translated units of either version */
+  public static parse(content: string): {
+    language?: string;
+    translations: ImportedTranslation[];
+  } {
+    const parser = new XMLParser({
+      preserveOrder: true,
+      ignoreAttributes: false,
+      attributeNamePrefix: '',
+      parseTagValue: false,
+      parseAttributeValue: false,
+      trimValues: false,
+      // Entities are decoded by unescape(), which leaves CDATA alone
+      processEntities: false,
+      cdataPropName: '#cdata',
+      ignoreDeclaration: true,
+      ignorePiTags: true,
+    });
+    const document: XmlNode[] = parser.parse(content);
+    const root = document.find((node) => XliffFormat.getName(node) === 'xliff');
+    const files = XliffFormat.findElements(root ? [root] : [], 'file');
+    const language =
+      (root && XliffFormat.getAttributes(root).trgLang) ||
+      files
+        .map((file) => XliffFormat.getAttributes(file)['target-language'])
+        .find(Boolean);
+
+    const translations: ImportedTranslation[] = [];
+    for (const unit of XliffFormat.findElements(files, 'trans-unit', 'unit')) {
+      const attributes = XliffFormat.getAttributes(unit);
+      const key = attributes.resname || attributes.name || attributes.id;
+
+      // 1.2 keeps the state on <target>, 2.0 on each <segment>
+      const parts = XliffFormat.getChildren(unit).filter((child) =>
+        ['segment', 'ignorable'].includes(XliffFormat.getName(child) ?? '')
+      );
+      const segments = parts.length > 0 ? parts : [unit];
+      const targets = segments.map((segment) =>
+        XliffFormat.getChild(segment, 'target')
+      );
+      if (!key || targets.every((target) => !target)) continue;
+
+      const states = segments.map(
+        (segment, index) =>
+          XliffFormat.getAttributes(segment).state ??
+          XliffFormat.getAttributes(targets[index] ?? {}).state
+      );
+      const target = targets.map(XliffFormat.getText).join('');
+      if (
+        target === '' ||
+        states.some(
+          (state) => state && XliffFormat.TRANSLATED_STATES[state] === false
+        )
+      ) {
+        continue;
+      }
+
+      const sources = segments.map((segment) =>
+        XliffFormat.getChild(segment, 'source')
+      );
+      translations.push({
+        key,
+        source: sources.some(Boolean)
+          ? sources.map(XliffFormat.getText).join('')
+          : undefined,
+        target,
+      });
+    }
+
+    return { language, translations };
+  }
+
+  private static serialize12(
+    units: TranslationUnit[],
+    sourceLanguage: string,
+    targetLanguage: string
+  ): string {
+    const body = units.map((unit, index) => {
+      const state = unit.target === '' ? 'new' : 'translated';
+      const notes = XliffFormat.getNotes(unit).map(
+        (note) => `        <note from="react-auto-i18ner">${note}</note>`
+      );
+
+      return [
+        `      <trans-unit id="u${index + 1}" resname="${XliffFormat.escape(unit.key)}">`,
+        `        <source>${XliffFormat.escape(unit.source)}</source>`,
+        `        <target state="${state}">${XliffFormat.escape(unit.target)}</target>`,
+        ...notes,
+        '      </trans-unit>',
+      ].join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+      `  <file source-language="${sourceLanguage}" target-language="${targetLanguage}" datatype="plaintext" original="locales">`,
+      '    <body>',
+      ...body,
+      '    </body>',
+      '  </file>',
+      '</xliff>',
+      '',
+    ].join('\n');
+  }
+
+  private static serialize20(
+    units: TranslationUnit[],
+    sourceLanguage: string,
+    targetLanguage: string
+  ): string {
+    const body = units.map((unit, index) => {
+      const state = unit.target === '' ? 'initial' : 'translated';
+      const notes = XliffFormat.getNotes(unit);
+
+      return [
+        `    <unit id="u${index + 1}" name="${XliffFormat.escape(unit.key)}">`,
+        ...(notes.length > 0
+          ? [
+              '      <notes>',
+              ...notes.map((note) => `        <note>${note}</note>`),
+              '      </notes>',
+            ]
+          : []),
+        `      <segment state="${state}">`,
+        `        <source>${XliffFormat.escape(unit.source)}</source>`,
+        `        <target>${XliffFormat.escape(unit.target)}</target>`,
+        '      </segment>',
+        '    </unit>',
+      ].join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${sourceLanguage}" trgLang="${targetLanguage}">`,
+      '  <file id="locales">',
+      ...body,
+      '  </file>',
+      '</xliff>',
+      '',
+    ].join('\n');
+  }
+
+  /** `src/Inbox.tsx:2 (jsx-text)` per extraction site, plus plural hints */
+  private static getNotes(unit: TranslationUnit): string[] {
+    return [
+      ...(unit.pluralCategory ? [`Plural form "${unit.pluralCategory}"`] : []),
+      ...unit.references.map(
+        ({ filePath, line, type }) => `${filePath}:${line} (${type})`
+      ),
+    ].map(XliffFormat.escape);
+  }
+
+  private static getName(node: XmlNode): string | undefined {
+    return Object.keys(node).find((name) => name !== ':@');
+  }
+
+  private static getAttributes(node: XmlNode): Record<string, string> {
+    const attributes = (node[':@'] ?? {}) as Record<string, string>;
+    return Object.fromEntries(
+      Object.entries(attributes).map(([name, value]) => [
+        name,
+        XliffFormat.unescape(value),
+      ])
+    );
+  }
+
+  private static getChildren(node: XmlNode): XmlNode[] {
+    const children = node[XliffFormat.getName(node) ?? ''];
+    return Array.isArray(children) ? children : [];
+  }
+
+  private static getChild(node: XmlNode, name: string): XmlNode | undefined {
+    return XliffFormat.getChildren(node).find(
+      (child) => XliffFormat.getName(child) === name
+    );
+  }
+
+  /** Elements with one of the names at any depth, e.g. inside `<group>` */
+  private static findElements(nodes: XmlNode[], ...names: string[]): XmlNode[] {
+    return nodes.flatMap((node) =>
+      names.includes(XliffFormat.getName(node) ?? '')
+        ? [node]
+        : XliffFormat.findElements(XliffFormat.getChildren(node), ...names)
+    );
+  }
+
+  /** Text of an element and of its inline elements, with CDATA kept as is */
+  private static getText(node: XmlNode | undefined): string {
+    if (!node) return '';
+    if (typeof node['#text'] === 'string') {
+      return XliffFormat.unescape(node['#text']);
+    }
+    const children = XliffFormat.getChildren(node);
+    return XliffFormat.getName(node) === '#cdata'
+      ? children.map((child) => String(child['#text'] ?? '')).join('')
+      : children.map(XliffFormat.getText).join('');
+  }
+
+  public static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  public static unescape(text: string): string {
+    // XML's own entities, and the HTML ones other tools write anyway
+    const entities: Record<string, string> = {
+      lt: '<',
+      gt: '>',
+      quot: '"',
+      apos: "'",
+      amp: '&',
+      nbsp: '\u00a0',
+      shy: '\u00ad',
+      copy: '\u00a9',
+      reg: '\u00ae',
+      trade: '\u2122',
+      hellip: '\u2026',
+      ndash: '\u2013',
+      mdash: '\u2014',
+      lsquo: '\u2018',
+      rsquo: '\u2019',
+      ldquo: '\u201c',
+      rdquo: '\u201d',
+      laquo: '\u00ab',
+      raquo: '\u00bb',
+      bull: '\u2022',
+      euro: '\u20ac',
+      pound: '\u00a3',
+      yen: '\u00a5',
+      cent: '\u00a2',
+      deg: '\u00b0',
+      times: '\u00d7',
+    };
+    return text.replace(
+      /&(#x[0-9a-f]+|#\d+|\w+);/gi,
+      (entity, name: string) => {
+        if (name.startsWith('#x') || name.startsWith('#X')) {
+          return String.fromCodePoint(parseInt(name.slice(2), 16));
+        }
+        if (name.startsWith('#')) {
+          return String.fromCodePoint(parseInt(name.slice(1), 10));
+        }
+        return entities[name] ?? entity;
+      }
+    );
+  }
+}
+
+export default XliffFormat;
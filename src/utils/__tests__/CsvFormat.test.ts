@@ -0,0 +1,25 @@
+import { CsvFormat } from '../CsvFormat';
+
+describe('CsvFormat', () => {
+  it('should quote only fields that need it', () => {
+    expect(
+      CsvFormat.serialize([
+        ['key', 'text'],
+        ['greeting', 'Hello, "friend"'],
+        ['lines', 'One\nTwo'],
+      ])
+    ).toBe('key,text\ngreeting,"Hello, ""friend"""\nlines,"One\nTwo"\n');
+  });
+
+  it('should parse what spreadsheets write', () => {
+    expect(
+      CsvFormat.parse(
+        '\uFEFFkey,text\r\ngreeting,"Hello, ""friend"""\r\nlines,"One\r\nTwo",'
+      )
+    ).toEqual([
+      ['key', 'text'],
+      ['greeting', 'Hello, "friend"'],
+      ['lines', 'One\r\nTwo', ''],
+    ]);
+  });
+});
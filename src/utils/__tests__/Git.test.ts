@@ -0,0 +1,69 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { execFileSync } from 'child_process';
+import { Git } from '../Git';
+
+describe('Git', () => {
+  let tmpDir: string;
+
+  const git = (...args: string[]) =>
+    execFileSync(
+      'git',
+      ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args],
+      { cwd: tmpDir, stdio: 'ignore' }
+    );
+
+  beforeEach(async () => {
+    tmpDir = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'))
+    );
+    await fs.outputFile(path.join(tmpDir, 'src', 'Header.tsx'), 'header');
+    await fs.outputFile(path.join(tmpDir, 'src', 'Footer.tsx'), 'footer');
+    git('init', '-q');
+    git('add', '-A');
+    git('commit', '-q', '-m', 'Initial commit');
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  it('should list committed, modified and untracked changes', async () => {
+    await fs.outputFile(path.join(tmpDir, 'src', 'Header.tsx'), 'changed');
+    git('commit', '-q', '-am', 'Change header');
+    await fs.outputFile(path.join(tmpDir, 'src', 'Footer.tsx'), 'changed');
+    await fs.outputFile(path.join(tmpDir, 'src', 'Nav.tsx'), 'new');
+
+    const files = Git.getChangedFiles('HEAD~1', path.join(tmpDir, 'src'));
+
+    expect(files.sort()).toEqual([
+      path.join(tmpDir, 'src', 'Footer.tsx'),
+      path.join(tmpDir, 'src', 'Header.tsx'),
+      path.join(tmpDir, 'src', 'Nav.tsx'),
+    ]);
+  });
+
+  it('should list uncommitted files in the given paths', async () => {
+    await fs.outputFile(path.join(tmpDir, 'src', 'Footer.tsx'), 'changed');
+    await fs.outputFile(path.join(tmpDir, 'src', 'forms', 'Login.tsx'), 'new');
+    await fs.outputFile(path.join(tmpDir, 'README.md'), 'outside');
+    git('mv', 'src/Header.tsx', 'src/Top.tsx');
+
+    const files = Git.getUncommittedFiles(['src'], tmpDir);
+
+    expect(files.sort()).toEqual([
+      path.join(tmpDir, 'src', 'Footer.tsx'),
+      path.join(tmpDir, 'src', 'Top.tsx'),
+      path.join(tmpDir, 'src', 'forms', 'Login.tsx'),
+    ]);
+    expect(Git.getRoot(tmpDir)).toBe(tmpDir);
+    expect(Git.getRoot(os.tmpdir())).toBeUndefined();
+  });
+
+  it('should report unknown refs', () => {
+    expect(() => Git.getChangedFiles('no-such-ref', tmpDir)).toThrow(
+      /git diff --name-only no-such-ref -- failed/
+    );
+  });
+});
@@ -0,0 +1,310 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { JavaScriptTransformer } from '../JavaScriptTransformer';
+import { ConfigManager } from '../../core/ConfigManager';
+import { I18nConfig } from '../../types';
+
+describe('JavaScriptTransformer', () => {
+  let tmpDir: string;
+  let config: I18nConfig;
+
+  const transformComponent = async (name: string, content: string) => {
+    const filePath = path.join(tmpDir, 'src', name);
+    await fs.outputFile(filePath, content);
+    const transformer = new JavaScriptTransformer(config);
+    const result = await transformer.transform();
+    return {
+      transformer,
+      result,
+      output: await fs.readFile(filePath, 'utf8'),
+    };
+  };
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'));
+    const defaults = ConfigManager.getInstance().getConfig();
+    config = {
+      ...defaults,
+      srcDir: path.join(tmpDir, 'src'),
+      outputDir: path.join(tmpDir, 'locales'),
+      targetLanguages: ['es'],
+      advanced: { ...defaults.advanced, createBackup: false },
+    };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should add the hook to the component, not to helper functions', async () => {
+    const { output } = await transformComponent(
+      'Profile.jsx',
+      `import React from 'react';
+
+function formatName(user) {
+  return user.first + ' ' + user.last;
+}
+
+export default function Profile({ user }) {
+  return (
+    <div>
+      <h1>User Profile</h1>
+      <span>{formatName(user)}</span>
+    </div>
+  );
+}
+`
+    );
+
+    expect(output).toBe(`import React from 'react';
+import { useTranslation } from 'react-i18next';
+
+function formatName(user) {
+  return user.first + ' ' + user.last;
+}
+
+export default function Profile({ user }) {
+  const { t } = useTranslation();
+  return (
+    <div>
+      <h1>{t('User Profile')}</h1>
+      <span>{formatName(user)}</span>
+    </div>
+  );
+}
+`);
+  });
+
+  it('should handle nested components and multi-line JSX', async () => {
+    const { output, result } = await transformComponent(
+      'List.jsx',
+      `const Item = ({ item }) => (
+  <li
+    title="Open item"
+  >
+    {item.name}
+  </li>
+);
+
+export const List = ({ items }) => {
+  return (
+    <section>
+      <h2>
+        Your items
+      </h2>
+      <button className="primary"
+        type="button">Add item</button>
+      {items.map((item) => <Item key={item.id} item={item} />)}
+    </section>
+  );
+};
+`
+    );
+
+    expect(output).toBe(`import { useTranslation } from 'react-i18next';
+const Item = ({ item }) => {
+  const { t } = useTranslation();
+  return (
+  <li
+    title={t('Open item')}
+  >
+    {item.name}
+  </li>
+);
+};
+
+export const List = ({ items }) => {
+  const { t } = useTranslation();
+  return (
+    <section>
+      <h2>
+        {t('Your items')}
+      </h2>
+      <button className="primary"
+        type="button">{t('Add item')}</button>
+      {items.map((item) => <Item key={item.id} item={item} />)}
+    </section>
+  );
+};
+`);
+    expect(result.stats.hooksAdded).toBe(2);
+    expect(result.stats.buttonsFixed).toBe(1);
+  });
+
+  it('should indent hooks in parenthesized arrows from the arrow line', async () => {
+    const { output } = await transformComponent(
+      'Page.jsx',
+      `export default function Page() {
+\tconst Header = ({
+\t\tname,
+\t}) => (<h1>Welcome to {name}</h1>);
+\treturn <Header name="Shop" />;
+}
+`
+    );
+
+    expect(output).toBe(`import { useTranslation } from 'react-i18next';
+export default function Page() {
+\tconst Header = ({
+\t\tname,
+\t}) => {
+\t\tconst { t } = useTranslation();
+\t\treturn (<h1>{t('Welcome to {{name}}', { name })}</h1>);
+\t};
+\treturn <Header name="Shop" />;
+}
+`);
+  });
+
+  it('should wrap class components with withTranslation', async () => {
+    const { output } = await transformComponent(
+      'Greeting.jsx',
+      `import React, { Component } from 'react';
+
+class Greeting extends Component {
+  render() {
+    return <p>Welcome back</p>;
+  }
+}
+
+export default Greeting;
+`
+    );
+
+    expect(output).toBe(`import React, { Component } from 'react';
+import { withTranslation } from 'react-i18next';
+
+class Greeting extends Component {
+  render() {
+    const { t } = this.props;
+    return <p>{t('Welcome back')}</p>;
+  }
+}
+
+export default withTranslation()(Greeting);
+`);
+  });
+
+  it('should leave class components it cannot wrap untouched', async () => {
+    const source = `import React, { Component } from 'react';
+
+export class Banner extends Component {
+  render() {
+    return <p>Limited offer</p>;
+  }
+}
+`;
+    const { output, result } = await transformComponent('Banner.jsx', source);
+
+    expect(output).toBe(source);
+    expect(result.translationKeys.has('Limited offer')).toBe(false);
+    expect(result.stats.warnings).toEqual([
+      expect.stringContaining(
+        "Banner.jsx: Banner can't be wrapped with withTranslation()"
+      ),
+    ]);
+  });
+
+  it('should extend an existing react-i18next import and keep existing hooks', async () => {
+    const source = `import { Trans, useTranslation } from 'react-i18next';
+
+export function Footer() {
+  const { t } = useTranslation();
+  return <footer>All rights reserved</footer>;
+}
+`;
+    const { output, result } = await transformComponent('Footer.jsx', source);
+
+    expect(output).toBe(
+      source.replace('All rights reserved', "{t('All rights reserved')}")
+    );
+    expect(result.stats.hooksAdded).toBe(0);
+    expect(result.stats.importsAdded).toBe(0);
+  });
+
+  it('should merge text and simple expressions into one message', async () => {
+    const { output, transformer } = await transformComponent(
+      'Inbox.jsx',
+      `export function Inbox({ user, count }) {
+  return (
+    <p>
+      Hello {user.name}, you have {count} messages
+    </p>
+  );
+}
+`
+    );
+
+    expect(output).toContain(`    <p>
+      {t('Hello {{name}}, you have {{count}} messages', { name: user.name, count })}
+    </p>`);
+    expect(transformer.getExtractedTexts()).toEqual([
+      expect.objectContaining({
+        text: 'Hello {{name}}, you have {{count}} messages',
+        line: 4,
+        column: 7,
+      }),
+    ]);
+  });
+
+  it('should turn plural ternaries into count-based keys', async () => {
+    config.targetLanguages = ['ru'];
+    const { output } = await transformComponent(
+      'Messages.jsx',
+      `export function Messages({ count }) {
+  return <p>You have {count} {count === 1 ? 'message' : 'messages'}</p>;
+}
+`
+    );
+    const key = 'You have {{count}} messages';
+    const readLocale = (language: string) =>
+      fs.readJson(path.join(tmpDir, 'locales', `${language}.json`));
+
+    expect(output).toContain(`<p>{t('${key}', { count })}</p>`);
+    expect(await readLocale('en')).toEqual({
+      [`${key}_one`]: 'You have {{count}} message',
+      [`${key}_other`]: key,
+    });
+    expect(Object.keys(await readLocale('ru'))).toEqual([
+      `${key}_few`,
+      `${key}_many`,
+      `${key}_one`,
+      `${key}_other`,
+    ]);
+  });
+
+  it('should leave text outside components alone', async () => {
+    const source = `export const renderBanner = () => <div>Limited offer</div>;
+`;
+    const { output, result } = await transformComponent('banner.jsx', source);
+
+    expect(output).toBe(source);
+    expect(result.keyTexts.size).toBe(0);
+    expect(result.stats.warnings).toEqual([
+      expect.stringContaining('Skipped "Limited offer"'),
+    ]);
+  });
+
+  it('should warn about options only the TypeScript transformer has', async () => {
+    config.transformation = {
+      ...config.transformation,
+      extractRichText: true,
+      extractStringLiterals: true,
+    };
+
+    const { result } = await transformComponent(
+      'Terms.jsx',
+      `export function Terms() {
+  return <p>Read our <a href="/tos">Terms</a></p>;
+}
+`
+    );
+
+    expect(result.stats.warnings).toEqual([
+      'extractRichText, extractStringLiterals are only supported by the TypeScript transformer and ignored for JavaScript',
+    ]);
+  });
+});
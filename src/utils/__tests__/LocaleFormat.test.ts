@@ -0,0 +1,64 @@
+import { LocaleFormat } from '../LocaleFormat';
+import { ConfigManager } from '../../core/ConfigManager';
+import { I18nConfig } from '../../types';
+
+describe('LocaleFormat', () => {
+  describe('flatten', () => {
+    it('should join nested keys with the separator', () => {
+      expect(
+        LocaleFormat.flatten(
+          { nav: { home: 'Home', menu: { open: 'Open' } }, title: 'App' },
+          '.'
+        )
+      ).toEqual({ 'nav.home': 'Home', 'nav.menu.open': 'Open', title: 'App' });
+    });
+
+    it('should keep arrays and flat keys as they are', () => {
+      expect(
+        LocaleFormat.flatten({ 'a.b': 'Flat', list: ['one', 'two'] }, '.')
+      ).toEqual({ 'a.b': 'Flat', list: ['one', 'two'] });
+    });
+  });
+
+  describe('unflatten', () => {
+    it('should split keys into nested objects', () => {
+      expect(
+        LocaleFormat.unflatten(
+          { 'nav.home': 'Home', 'nav.about': 'About', title: 'App' },
+          '.'
+        )
+      ).toEqual({ nav: { home: 'Home', about: 'About' }, title: 'App' });
+    });
+
+    it('should keep colliding keys flat', () => {
+      expect(
+        LocaleFormat.unflatten(
+          { nav: 'Navigation', 'nav.home': 'Home', 'Done. Next': 'Next' },
+          '.'
+        )
+      ).toEqual({
+        nav: 'Navigation',
+        'nav.home': 'Home',
+        Done: { ' Next': 'Next' },
+      });
+    });
+  });
+
+  describe('serialize', () => {
+    it('should sort and nest entries in nested mode', () => {
+      const defaults = ConfigManager.getInstance().getConfig();
+      const config: I18nConfig = {
+        ...defaults,
+        format: { ...defaults.format, sortKeys: true, structure: 'nested' },
+      };
+
+      const output = new LocaleFormat(config).serialize({
+        'b.y': 'Y',
+        a: 'A',
+        'b.x': 'X',
+      });
+
+      expect(JSON.stringify(output)).toBe('{"a":"A","b":{"x":"X","y":"Y"}}');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { LocaleValidator } from '../LocaleValidator';
+import { ConfigManager } from '../../core/ConfigManager';
+import { I18nConfig } from '../../types';
+
+describe('LocaleValidator', () => {
+  let tmpDir: string;
+  let config: I18nConfig;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'i18ner-'));
+    config = {
+      ...ConfigManager.getInstance().getConfig(),
+      outputDir: tmpDir,
+      sourceLanguage: 'en',
+      targetLanguages: ['es', 'fr'],
+    };
+  });
+
+  afterEach(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  describe('getPlaceholders', () => {
+    it('should return sorted interpolation names', () => {
+      expect(
+        LocaleValidator.getPlaceholders(
+          '{{count, number}} items for {{ name }}'
+        )
+      ).toEqual(['count', 'name']);
+      expect(LocaleValidator.getPlaceholders('No variables')).toEqual([]);
+    });
+  });
+
+  describe('validate', () => {
+    it('should report missing, empty, orphaned and mismatched keys', async () => {
+      await fs.writeJson(path.join(tmpDir, 'en.json'), {
+        greeting: 'Hello {{name}}',
+        farewell: 'Goodbye',
+        title: 'Dashboard',
+      });
+      await fs.writeJson(path.join(tmpDir, 'es.json'), {
+        greeting: 'Hola {{nombre}}',
+        farewell: '',
+        legacy: 'Antiguo',
+      });
+
+      const report = await new LocaleValidator(config).validate();
+      const es = report.files.find((file) => file.language === 'es')!;
+      const fr = report.files.find((file) => file.language === 'fr')!;
+
+      expect(es.issues.map((issue) => [issue.type, issue.key])).toEqual([
+        ['placeholder-mismatch', 'greeting'],
+        ['empty', 'farewell'],
+        ['missing', 'title'],
+        ['orphaned', 'legacy'],
+      ]);
+      expect(fr.exists).toBe(false);
+      expect(fr.issues).toHaveLength(3);
+      expect(report.issues).toHaveLength(7);
+    });
+
+    it('should pass complete translations', async () => {
+      await fs.writeJson(path.join(tmpDir, 'en.json'), { hi: 'Hi {{name}}' });
+      await fs.writeJson(path.join(tmpDir, 'es.json'), { hi: 'Hola {{name}}' });
+      await fs.writeJson(path.join(tmpDir, 'fr.json'), {
+        hi: 'Salut {{name}}',
+      });
+
+      const report = await new LocaleValidator(config).validate();
+
+      expect(report.issues).toEqual([]);
+    });
+
+    it('should expect the plural categories of each target language', async () => {
+      config.targetLanguages = ['ru', 'ja'];
+      await fs.writeJson(path.join(tmpDir, 'en.json'), {
+        files_one: 'One file',
+        files_other: '{{count}} files',
+      });
+      await fs.writeJson(path.join(tmpDir, 'ru.json'), {
+        files_one: '{{count}} файл',
+        files_few: '{{count}} файла',
+        files_other: '{{count}} файла',
+      });
+      await fs.writeJson(path.join(tmpDir, 'ja.json'), {
+        files_other: '{{count}} ファイル',
+      });
+
+      const report = await new LocaleValidator(config).validate();
+
+      expect(report.issues.map((issue) => [issue.language, issue.key])).toEqual(
+        [['ru', 'files_many']]
+      );
+      expect(report.files.map((file) => file.expectedKeys)).toEqual([2, 4, 1]);
+    });
+
+    it('should compare namespace files separately', async () => {
+      config.targetLanguages = ['es'];
+      config.format = {
+        ...config.format,
+        namespaces: { 'src/features/billing/**': 'billing' },
+      };
+      await fs.outputJson(path.join(tmpDir, 'en', 'billing.json'), {
+        pay: 'Pay now',
+      });
+      await fs.outputJson(path.join(tmpDir, 'en', 'common.json'), {
+        hi: 'Hi',
+      });
+      await fs.outputJson(path.join(tmpDir, 'es', 'common.json'), {
+        hi: 'Hola',
+      });
+
+      const report = await new LocaleValidator(config).validate();
+
+      expect(report.sourceFile).toBe(path.join(tmpDir, 'en'));
+      expect(
+        report.files.map((file) => [file.language, file.namespace, file.exists])
+      ).toEqual([
+        ['en', 'billing', true],
+        ['es', 'billing', false],
+        ['en', 'common', true],
+        ['es', 'common', true],
+      ]);
+      expect(report.issues.map((issue) => issue.key)).toEqual(['pay']);
+    });
+
+    it('should fail without a source locale file', async () => {
+      await expect(new LocaleValidator(config).validate()).rejects.toThrow(
+        'Source locale file not found'
+      );
+    });
+  });
+});
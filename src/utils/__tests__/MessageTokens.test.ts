@@ -0,0 +1,25 @@
+import { MessageTokens } from '../MessageTokens';
+
+describe('MessageTokens', () => {
+  it('should compare placeholders and tags regardless of order', () => {
+    expect(
+      MessageTokens.preserves(
+        '{{count}} items in <1>{{cart}}</1>',
+        'En <1>{{cart}}</1>: {{count}} artículos'
+      )
+    ).toBe(true);
+    expect(MessageTokens.preserves('Hi {{name}}', 'Hola {{nombre}}')).toBe(
+      false
+    );
+    expect(MessageTokens.preserves('<1>Read</1>', 'Leer')).toBe(false);
+  });
+
+  it('should mask and restore tokens', () => {
+    const { text, tokens } = MessageTokens.mask('Hi {{name}}, see <2/>');
+
+    expect(text).toBe('Hi ⟦0⟧, see ⟦1⟧');
+    expect(MessageTokens.unmask('Hola ⟦0⟧, mira ⟦1⟧', tokens)).toBe(
+      'Hola {{name}}, mira <2/>'
+    );
+  });
+});
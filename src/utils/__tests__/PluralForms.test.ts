@@ -0,0 +1,31 @@
+import { PluralForms } from '../PluralForms';
+
+describe('PluralForms', () => {
+  it('should list the plural categories of a language in CLDR order', () => {
+    expect(PluralForms.getCategories('en')).toEqual(['one', 'other']);
+    expect(PluralForms.getCategories('ru')).toEqual([
+      'one',
+      'few',
+      'many',
+      'other',
+    ]);
+    expect(PluralForms.getCategories('ja')).toEqual(['other']);
+  });
+
+  it('should split plural suffixes off keys', () => {
+    expect(PluralForms.splitKey('cart.items_few')).toEqual({
+      base: 'cart.items',
+      category: 'few',
+    });
+    expect(PluralForms.splitKey('user_name')).toBeUndefined();
+  });
+
+  it('should singularize common English plurals', () => {
+    expect(PluralForms.singularize(' files')).toBe(' file');
+    expect(PluralForms.singularize(' entries left')).toBe(' entries left');
+    expect(PluralForms.singularize(' entries')).toBe(' entry');
+    expect(PluralForms.singularize(' boxes')).toBe(' box');
+    expect(PluralForms.singularize(' items.')).toBe(' item.');
+    expect(PluralForms.singularize(' class')).toBe(' class');
+  });
+});
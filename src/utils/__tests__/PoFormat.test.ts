@@ -0,0 +1,65 @@
+import { PoFormat } from '../PoFormat';
+
+describe('PoFormat', () => {
+  it('should write keys as context only when they differ from the text', () => {
+    const content = PoFormat.serialize(
+      [
+        {
+          key: 'Welcome back',
+          source: 'Welcome back',
+          target: 'Bienvenido',
+          references: [{ filePath: 'src/Home.tsx', line: 4, type: 'jsx-text' }],
+        },
+        {
+          key: 'files_one',
+          source: 'One "file"',
+          target: '',
+          references: [],
+          pluralCategory: 'one',
+        },
+      ],
+      'es'
+    );
+
+    expect(content).toContain('"Language: es\\n"');
+    expect(content).toContain(
+      '#: src/Home.tsx:4\nmsgid "Welcome back"\nmsgstr "Bienvenido"'
+    );
+    expect(content).toContain(
+      '#. Plural form "one"\nmsgctxt "files_one"\nmsgid "One \\"file\\""\nmsgstr ""'
+    );
+  });
+
+  it('should parse headers, multi-line strings and fuzzy flags', () => {
+    const { headers, entries } = PoFormat.parse(`msgid ""
+msgstr ""
+"Language: fr\\n"
+
+#: src/Home.tsx:4
+msgctxt "home.title"
+msgid ""
+"Welcome "
+"back"
+msgstr "Bon retour"
+#, fuzzy
+msgid "Sign out"
+msgstr "Se déconnecter"
+`);
+
+    expect(headers).toEqual({ Language: 'fr' });
+    expect(entries).toEqual([
+      {
+        context: 'home.title',
+        id: 'Welcome back',
+        translation: 'Bon retour',
+        fuzzy: false,
+      },
+      {
+        context: undefined,
+        id: 'Sign out',
+        translation: 'Se déconnecter',
+        fuzzy: true,
+      },
+    ]);
+  });
+});
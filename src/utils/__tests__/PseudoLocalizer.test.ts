@@ -0,0 +1,27 @@
+import { PseudoLocalizer } from '../PseudoLocalizer';
+
+describe('PseudoLocalizer', () => {
+  it('should accent, pad and bracket text', () => {
+    expect(PseudoLocalizer.localize('Settings')).toBe('[Šéţţîñĝš ~~~]');
+    expect(PseudoLocalizer.localize('OK')).toBe('[ÖĶ ~]');
+    expect(PseudoLocalizer.localize('')).toBe('');
+  });
+
+  it('should keep placeholders and tags intact', () => {
+    expect(PseudoLocalizer.localize('Hi {{name}}, read <1>this</1><2/>')).toBe(
+      '[Ĥî {{name}}, ŕéåð <1>ţĥîš</1><2/> ~~~~~]'
+    );
+  });
+
+  it('should expand plural forms for the pseudo language', () => {
+    expect(
+      PseudoLocalizer.localizeAll(
+        { files_one: 'One file', files_other: '{{count}} files' },
+        'en-XA'
+      )
+    ).toEqual({
+      files_one: '[Öñé ƒîļé ~~~]',
+      files_other: '[{{count}} ƒîļéš ~~]',
+    });
+  });
+});
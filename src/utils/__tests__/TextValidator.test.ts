@@ -85,5 +85,39 @@ describe('TextValidator', () => {
       const key = validator.suggestKeyName('Hello World!', 'path');
       expect(key).toBe('hello_world');
     });
+
+    it('should generate namespaced keys from the text context', () => {
+      const context = {
+        filePath: 'checkout/PaymentForm.tsx',
+        component: 'PaymentForm',
+        type: 'button' as const,
+      };
+
+      expect(
+        validator.suggestKeyName('Submit payment', 'namespaced', context)
+      ).toBe('checkout.PaymentForm.button.submitPayment');
+      expect(
+        validator.suggestKeyName('Hello {{name}}!', 'namespaced', {
+          filePath: 'Greeting.jsx',
+          type: 'jsx-text',
+        })
+      ).toBe('Greeting.text.hello');
+    });
+
+    it('should apply the key prefix and separator to namespaced keys', () => {
+      const config = ConfigManager.getInstance().getConfig();
+      const prefixed = new TextValidator({
+        ...config,
+        format: { ...config.format, keyPrefix: 'app', keySeparator: ':' },
+      });
+
+      expect(
+        prefixed.suggestKeyName('Close', 'namespaced', {
+          filePath: 'ui/Dialog.tsx',
+          component: 'Dialog',
+          type: 'aria-label',
+        })
+      ).toBe('app:ui:Dialog:ariaLabel:close');
+    });
   });
 });
@@ -0,0 +1,40 @@
+import { TranslationMemory } from '../TranslationMemory';
+
+describe('TranslationMemory', () => {
+  const createMemory = (threshold = 0.8) => {
+    const memory = new TranslationMemory(threshold);
+    memory.add('es', 'Save changes', 'Guardar cambios');
+    memory.add('es', 'Delete account', 'Eliminar cuenta');
+    memory.add('es', 'Untranslated', '');
+    return memory;
+  };
+
+  it('should fill exact matches', () => {
+    const memory = createMemory();
+
+    expect(memory.recall('es', 'settings.save', 'Save changes')).toBe(
+      'Guardar cambios'
+    );
+    expect(memory.recall('fr', 'settings.save', 'Save changes')).toBe('');
+    expect(memory.recall('es', 'misc', 'Untranslated')).toBe('');
+    expect(memory.getFilledCount()).toBe(1);
+  });
+
+  it('should suggest near matches above the threshold', () => {
+    const memory = createMemory(0.7);
+
+    expect(memory.recall('es', 'settings.save', 'Save your changes')).toBe('');
+    expect(memory.recall('es', 'logout', 'Sign out')).toBe('');
+    expect(createMemory().recall('es', 'save', 'Save your changes')).toBe('');
+    expect(memory.getSuggestions()).toEqual({
+      es: {
+        'settings.save': {
+          source: 'Save your changes',
+          match: 'Save changes',
+          suggestion: 'Guardar cambios',
+          similarity: 0.71,
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { XliffFormat } from '../XliffFormat';
+import { TranslationUnit } from '../../types';
+
+describe('XliffFormat', () => {
+  const units: TranslationUnit[] = [
+    {
+      key: 'cart.title',
+      source: 'Your <1>cart</1>',
+      target: 'Tu <1>carrito</1>',
+      references: [{ filePath: 'src/Cart.tsx', line: 7, type: 'rich-text' }],
+    },
+    { key: 'Checkout', source: 'Checkout', target: '', references: [] },
+  ];
+
+  it('should write XLIFF 1.2 units with state and notes', () => {
+    const content = XliffFormat.serialize(units, 'en', 'es');
+
+    expect(content).toContain('source-language="en" target-language="es"');
+    expect(content).toContain(`      <trans-unit id="u1" resname="cart.title">
+        <source>Your &lt;1&gt;cart&lt;/1&gt;</source>
+        <target state="translated">Tu &lt;1&gt;carrito&lt;/1&gt;</target>
+        <note from="react-auto-i18ner">src/Cart.tsx:7 (rich-text)</note>
+      </trans-unit>`);
+    expect(content).toContain('<target state="new"></target>');
+  });
+
+  it('should read back both versions, skipping untranslated units', () => {
+    for (const version of ['1.2', '2.0'] as const) {
+      const content = XliffFormat.serialize(units, 'en', 'es', version);
+
+      expect(XliffFormat.parse(content)).toEqual({
+        language: 'es',
+        translations: [
+          {
+            key: 'cart.title',
+            source: 'Your <1>cart</1>',
+            target: 'Tu <1>carrito</1>',
+          },
+        ],
+      });
+    }
+  });
+
+  it('should read CDATA and final targets from other tools', () => {
+    const { translations } = XliffFormat.parse(`<xliff version="1.2">
+  <file source-language="en" target-language="de">
+    <body>
+      <trans-unit id="Checkout">
+        <source>Checkout</source>
+        <target state="final"><![CDATA[Zur <Kasse> &amp;]]> &amp; mehr</target>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>`);
+
+    expect(translations).toEqual([
+      {
+        key: 'Checkout',
+        source: 'Checkout',
+        target: 'Zur <Kasse> &amp; & mehr',
+      },
+    ]);
+  });
+
+  it('should read inline elements, entities and every state', () => {
+    const { language, translations } = XliffFormat.parse(`<xliff version="1.2">
+  <file source-language="en" target-language="fr">
+    <body>
+      <group id="cart">
+        <trans-unit id="1" resname="cart.title">
+          <source xml:space="preserve"
+            xml:lang="en">Your <g id="1">cart</g></source>
+          <target state="needs-review-translation">Votre <mrk mtype="term">panier</mrk></target>
+        </trans-unit>
+      </group>
+      <trans-unit id="2" resname="Price">
+        <source>Price</source>
+        <target state="needs-adaptation">Prix&nbsp;&#x2014;&copy;</target>
+      </trans-unit>
+      <trans-unit id="3" resname="Total">
+        <source>Total</source>
+        <target state="needs-translation">Total</target>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>`);
+
+    expect(language).toBe('fr');
+    expect(translations).toEqual([
+      { key: 'cart.title', source: 'Your cart', target: 'Votre panier' },
+      { key: 'Price', source: 'Price', target: 'Prix\u00a0\u2014\u00a9' },
+    ]);
+
+    const segments = (states: string[]) =>
+      XliffFormat.parse(`<xliff version="2.0" trgLang="fr">
+  <file id="f1">
+    <unit id="u1" name="Welcome">
+      ${states
+        .map(
+          (state, index) => `<segment state="${state}">
+        <source>Part ${index}. </source>
+        <target>Partie ${index}. </target>
+      </segment>`
+        )
+        .join('\n      ')}
+    </unit>
+  </file>
+</xliff>`).translations;
+
+    expect(segments(['reviewed', 'final'])).toEqual([
+      {
+        key: 'Welcome',
+        source: 'Part 0. Part 1. ',
+        target: 'Partie 0. Partie 1. ',
+      },
+    ]);
+    expect(segments(['final', 'initial'])).toEqual([]);
+  });
+});